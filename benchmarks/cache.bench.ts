@@ -0,0 +1,72 @@
+/* eslint-disable no-console */
+import { createTokenCache, TokenCacheEntry } from "../src/headers/client/cache";
+
+// Baseline: the previous `headerCache` implementation, which sorted every entry on each trim
+// and walked the whole map on every 100th insert
+function createSortingCache(maxSize: number) {
+  const entries = new Map<string, TokenCacheEntry & { accessCount: number; timestamp: number }>();
+
+  return {
+    get(key: string, now: number) {
+      const entry = entries.get(key);
+      if (entry && entry.effectiveExpiry > now) {
+        entry.accessCount++;
+        return entry;
+      }
+      if (entry) entries.delete(key);
+    },
+
+    set(key: string, entry: TokenCacheEntry, now: number) {
+      entries.set(key, { ...entry, timestamp: now, accessCount: 1 });
+
+      if (entries.size % 100 === 0) {
+        for (const [key, entry] of entries) if (entry.effectiveExpiry <= now) entries.delete(key);
+      }
+
+      if (entries.size <= maxSize) return;
+
+      const sorted = Array.from(entries.entries());
+      sorted.sort((a, b) => a[1].accessCount - b[1].accessCount || a[1].timestamp - b[1].timestamp);
+      for (let i = 0; i < entries.size - maxSize; i++) entries.delete(sorted[i][0]);
+    },
+  };
+}
+
+type Cache = {
+  get(key: string, now: number): unknown;
+  set(key: string, entry: TokenCacheEntry, now: number): unknown;
+};
+
+const MAX_SIZE = 5000;
+const OPERATIONS = 10_000;
+const HIT_RATIO = 0.3; // Share of requests repeating a recently seen token, the rest are unique (bot traffic)
+
+async function run(name: string, cache: Cache) {
+  const now = Date.now();
+  const entry: TokenCacheEntry = { data: undefined, effectiveExpiry: now + 60_000 };
+
+  // Warm up to capacity so every new key triggers an eviction
+  for (let i = 0; i < MAX_SIZE; i++) await cache.set(`warm-${i}`, entry, now);
+
+  const start = performance.now();
+
+  for (let i = 0; i < OPERATIONS; i++) {
+    if (i > 0 && Math.random() < HIT_RATIO) {
+      await cache.get(`token-${Math.floor(Math.random() * i)}`, now);
+    } else {
+      await cache.set(`token-${i}`, entry, now);
+    }
+  }
+
+  const elapsed = performance.now() - start;
+  console.log(
+    `${name.padEnd(24)} ${elapsed.toFixed(1).padStart(9)} ms  ${Math.round((OPERATIONS / elapsed) * 1000)
+      .toLocaleString()
+      .padStart(10)} ops/sec`
+  );
+}
+
+console.log(`Cache eviction, maxSize: ${MAX_SIZE}, operations: ${OPERATIONS}\n`);
+
+await run("sort on every trim", createSortingCache(MAX_SIZE));
+await run("O(1) LFU+LRU", createTokenCache({ config: { maxSize: MAX_SIZE, ttl: 60_000 } }));
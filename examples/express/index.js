@@ -3,6 +3,7 @@ import path from "node:path";
 import express from "express";
 import { Eta } from "eta";
 import { Site, FEATURE } from "@zeroad.network/token";
+import { zeroAd, requireFeatures } from "@zeroad.network/token/express";
 
 const app = express();
 
@@ -25,16 +26,8 @@ const site = Site({
   },
 });
 
-// Middleware: Set Welcome Header and parse user tokens
-app.use(async (req, res, next) => {
-  // Tell Zero Ad Network browser extension that this site participates
-  res.set(site.SERVER_HEADER_NAME, site.SERVER_HEADER_VALUE);
-
-  // Parse the user's subscription token from request header
-  req.tokenContext = await site.parseClientToken(req.get(site.CLIENT_HEADER_NAME));
-
-  next();
-});
+// Middleware: Set Welcome Header and parse user tokens into `req.tokenContext`
+app.use(zeroAd({ site }));
 
 // Homepage - Shows ads conditionally
 app.get("/", async (req, res) => {
@@ -44,21 +37,23 @@ app.get("/", async (req, res) => {
 });
 
 // API endpoint - Premium access only
-app.get("/api/premium-data", async (req, res) => {
-  // Check if user has premium access
-  if (!req.tokenContext.ENABLE_SUBSCRIPTION_ACCESS) {
-    return res.status(403).json({
-      error: "Premium subscription required",
-      message: "Subscribe to Zero Ad Network to access this endpoint",
+app.get(
+  "/api/premium-data",
+  requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", {
+    deny: {
+      body: {
+        error: "Premium subscription required",
+        message: "Subscribe to Zero Ad Network to access this endpoint",
+      },
+    },
+  }),
+  async (req, res) => {
+    res.json({
+      data: "This is premium content only available to Zero Ad Network subscribers",
+      timestamp: new Date().toISOString(),
     });
   }
-
-  // Return premium data
-  res.json({
-    data: "This is premium content only available to Zero Ad Network subscribers",
-    timestamp: new Date().toISOString(),
-  });
-});
+);
 
 function buildEtaEngine() {
   return (path, opts, callback) => {
@@ -3,7 +3,8 @@ import path from "node:path";
 import Fastify from "fastify";
 import fastifyView from "@fastify/view";
 import { Eta } from "eta";
-import { Site, FEATURE, type TokenContext } from "@zeroad.network/token";
+import { Site, FEATURE } from "@zeroad.network/token";
+import { zeroAdPlugin, requireFeatureAction } from "@zeroad.network/token/fastify";
 
 const fastify = Fastify({
   logger: true,
@@ -17,13 +18,6 @@ await fastify.register(fastifyView, {
   root: "../templates",
 });
 
-// Extend Fastify request type
-declare module "fastify" {
-  interface FastifyRequest {
-    tokenContext: TokenContext;
-  }
-}
-
 // Initialize Zero Ad Network site instance once at startup
 const site = Site({
   clientId: process.env.ZERO_AD_CLIENT_ID || "DEMO-Z2CclA8oXIT1e0Qmq",
@@ -35,14 +29,8 @@ const site = Site({
   },
 });
 
-// Hook: Set Welcome Header and parse user tokens
-fastify.addHook("onRequest", async (request, reply) => {
-  // Set Welcome Header
-  reply.header(site.SERVER_HEADER_NAME, site.SERVER_HEADER_VALUE);
-
-  // Parse token from request header
-  request.tokenContext = await site.parseClientToken(request.headers[site.CLIENT_HEADER_NAME]);
-});
+// Plugin: Set Welcome Header and parse user tokens into `request.tokenContext`
+await fastify.register(zeroAdPlugin, { site });
 
 // Homepage route
 fastify.get("/", async (request, reply) => {
@@ -52,19 +40,21 @@ fastify.get("/", async (request, reply) => {
 });
 
 // Premium API endpoint
-fastify.get("/api/premium-data", async (request, reply) => {
-  if (!request.tokenContext.ENABLE_SUBSCRIPTION_ACCESS) {
-    return reply.status(403).send({
-      error: "Premium subscription required",
-      message: "Subscribe to Zero Ad Network to access this endpoint",
-    });
-  }
-
-  return {
+fastify.get(
+  "/api/premium-data",
+  {
+    preHandler: requireFeatureAction("ENABLE_SUBSCRIPTION_ACCESS", {
+      body: {
+        error: "Premium subscription required",
+        message: "Subscribe to Zero Ad Network to access this endpoint",
+      },
+    }),
+  },
+  async () => ({
     data: "This is premium content only available to Zero Ad Network subscribers",
     timestamp: new Date().toISOString(),
-  };
-});
+  })
+);
 
 const PORT = Number(process.env.PORT) || 8080;
 
@@ -2,14 +2,10 @@
 import path from "node:path";
 import { Hono } from "hono";
 import { Eta } from "eta";
-import { Site, FEATURE, type TokenContext } from "@zeroad.network/token";
+import { Site, FEATURE } from "@zeroad.network/token";
+import { zeroAd } from "@zeroad.network/token/hono";
 
-// Extend Hono context type
-type Variables = {
-  tokenContext: TokenContext;
-};
-
-const app = new Hono<{ Variables: Variables }>();
+const app = new Hono();
 
 // Initialize Eta template engine
 const eta = new Eta({ views: path.join(import.meta.dirname, "../templates") });
@@ -25,18 +21,8 @@ const site = Site({
   },
 });
 
-// Middleware: Set Welcome Header and parse user tokens
-app.use("*", async (c, next) => {
-  // Set Welcome Header
-  c.header(site.SERVER_HEADER_NAME, site.SERVER_HEADER_VALUE);
-
-  // Parse token from request header
-  const tokenContext = await site.parseClientToken(c.req.header(site.CLIENT_HEADER_NAME));
-
-  c.set("tokenContext", tokenContext);
-
-  await next();
-});
+// Middleware: Set Welcome Header and parse user tokens into `c.get("tokenContext")`
+app.use("*", zeroAd({ site }));
 
 // Homepage route
 app.get("/", (c) => {
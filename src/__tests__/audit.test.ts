@@ -0,0 +1,126 @@
+import { brotliCompressSync, gunzipSync, gzipSync } from "node:zlib";
+import { describe, test, expect } from "bun:test";
+import { auditHtml, AuditReport, createComplianceAuditor } from "../audit";
+import { createEmptyContext, createFeatureContext } from "../headers/client";
+import { FEATURE } from "../constants";
+
+const cleanWeb = createFeatureContext([FEATURE.CLEAN_WEB]);
+const onePass = createFeatureContext([FEATURE.ONE_PASS]);
+
+const PAGE = [
+  '<script async src="https://pagead2.googlesyndication.com/pagead/js/adsbygoogle.js"></script>',
+  '<script src="https://cdn.cookielaw.org/scripttemplates/otSDKStub.js"></script>',
+  "<img src='https://www.facebook.com/tr?id=1&ev=PageView' style='display:none'>",
+  '<img src="https://pixel.example.net/p.gif" width="1" height="1">',
+  '<img src="/logo.png" width="1" height="1">',
+  '<a href="https://www.facebook.com/zeroad">Follow us</a>',
+  '<!-- <script src="https://securepubads.g.doubleclick.net/tag/js/gpt.js"></script> -->',
+  '<section data-zeroad="paywall">Subscribe</section>',
+].join("\n");
+
+describe("compliance audit", () => {
+  test("should flag CLEAN_WEB violations", () => {
+    expect(auditHtml(PAGE, cleanWeb).map(({ rule, action, match }) => ({ rule, action, match }))).toEqual([
+      { rule: "ad-network", action: "HIDE_ADVERTISEMENTS", match: "pagead2.googlesyndication.com" },
+      { rule: "consent-manager", action: "HIDE_COOKIE_CONSENT_SCREEN", match: "cdn.cookielaw.org" },
+      { rule: "tracker", action: "DISABLE_NON_FUNCTIONAL_TRACKING", match: "www.facebook.com" },
+      { rule: "tracker", action: "DISABLE_NON_FUNCTIONAL_TRACKING", match: "pixel.example.net" },
+    ]);
+  });
+
+  test("should flag marked paywall elements for ONE_PASS", () => {
+    expect(auditHtml(PAGE, onePass)).toEqual([
+      {
+        rule: "marked-element",
+        action: "DISABLE_CONTENT_PAYWALL",
+        match: "paywall",
+        tag: '<section data-zeroad="paywall">',
+      },
+    ]);
+  });
+
+  test("should skip requests without subscription", () => {
+    expect(auditHtml(PAGE, createEmptyContext())).toEqual([]);
+  });
+
+  test("should report findings with extra hosts", () => {
+    const reports: AuditReport[] = [];
+    const auditor = createComplianceAuditor({
+      onFindings: (report) => reports.push(report),
+      hosts: { "ad-network": ["ads.example.com/serve"] },
+    });
+
+    auditor.audit('<iframe src="https://ads.example.com/serve/1"></iframe>', cleanWeb, "/page");
+    auditor.audit('<iframe src="https://ads.example.com/other"></iframe>', cleanWeb, "/other");
+
+    expect(reports).toEqual([
+      {
+        url: "/page",
+        findings: [
+          {
+            rule: "ad-network",
+            action: "HIDE_ADVERTISEMENTS",
+            match: "ads.example.com",
+            tag: '<iframe src="https://ads.example.com/serve/1">',
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("should audit HTML responses without altering them", async () => {
+    const reports: AuditReport[] = [];
+    const auditor = createComplianceAuditor({ onFindings: (report) => reports.push(report) });
+
+    const response = auditor.auditResponse(
+      new Response(PAGE, { status: 201, headers: { "Content-Type": "text/html" } }),
+      onePass,
+      "https://example.com/"
+    );
+
+    expect(response.status).toBe(201);
+    expect(await response.text()).toBe(PAGE);
+
+    await Bun.sleep(0);
+    expect(reports.map(({ url, findings }) => [url, findings.length])).toEqual([["https://example.com/", 1]]);
+
+    const json = new Response("{}", { headers: { "Content-Type": "application/json" } });
+    expect(auditor.auditResponse(json, onePass)).toBe(json);
+  });
+
+  test("should audit gzip responses and skip encodings it can't decode", async () => {
+    const reports: AuditReport[] = [];
+    const auditor = createComplianceAuditor({ onFindings: (report) => reports.push(report) });
+    const encoded = (encoding: string, body: BodyInit) =>
+      new Response(body, { headers: { "Content-Type": "text/html", "Content-Encoding": encoding } });
+
+    const gzipped = auditor.auditResponse(encoded("gzip", gzipSync(PAGE)), onePass, "/gzip");
+    expect(gunzipSync(await gzipped.bytes()).toString()).toBe(PAGE);
+
+    const brotli = encoded("br", brotliCompressSync(PAGE));
+    expect(auditor.auditResponse(brotli, onePass, "/br")).toBe(brotli);
+
+    await Bun.sleep(10);
+    expect(reports.map(({ url, findings }) => [url, findings.length])).toEqual([["/gzip", 1]]);
+  });
+
+  test("should stop reading response streams after `maxBytes`", async () => {
+    const reports: AuditReport[] = [];
+    const auditor = createComplianceAuditor({ maxBytes: 256, onFindings: (report) => reports.push(report) });
+    const encoder = new TextEncoder();
+    let pulls = 0;
+
+    // Never ends, only the audited prefix may be read from it
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(encoder.encode(pulls++ ? "<p>".padEnd(64, ".") : PAGE.split("\n")[0]));
+      },
+    });
+
+    auditor.auditResponse(new Response(body, { headers: { "Content-Type": "text/html" } }), cleanWeb);
+    await Bun.sleep(10);
+
+    expect(reports.map(({ findings }) => findings.map(({ rule }) => rule))).toEqual([["ad-network"]]);
+    expect(pulls).toBeLessThan(10);
+  });
+});
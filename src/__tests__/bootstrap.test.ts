@@ -0,0 +1,52 @@
+import { describe, test, expect } from "bun:test";
+import { renderTokenContextMeta, renderTokenContextScript, serializeTokenContext } from "../bootstrap";
+import { parseTokenContext } from "../dom";
+import { createEmptyContext, createFeatureContext, TokenContext } from "../context";
+import { FEATURE } from "../constants";
+
+const cleanWeb = createFeatureContext([FEATURE.CLEAN_WEB]);
+
+const unescapeHtml = (value: string) =>
+  value.replace(
+    /&(amp|quot|#39|lt|gt);/g,
+    (_, entity) => ({ amp: "&", quot: '"', "#39": "'", lt: "<", gt: ">" })[entity as string] as string
+  );
+
+describe("token context bootstrap", () => {
+  test("should serialize known actions only", () => {
+    const tokenContext = { ...cleanWeb, token: "secret" } as TokenContext;
+
+    expect(JSON.parse(serializeTokenContext(tokenContext))).toEqual(cleanWeb);
+    expect(serializeTokenContext(tokenContext)).not.toContain("secret");
+  });
+
+  test("should render a JSON script block readable by the browser", () => {
+    const html = renderTokenContextScript(cleanWeb, { nonce: "r4nd0m" });
+
+    expect(html).toStartWith('<script type="application/json" id="zeroad-token-context" nonce="r4nd0m">{');
+    expect(html).toEndWith("}</script>");
+
+    const json = /<script[^>]*>(.*)<\/script>/.exec(html)?.[1];
+    expect(parseTokenContext(json)).toEqual(cleanWeb);
+  });
+
+  test("should render a meta tag readable by the browser", () => {
+    const html = renderTokenContextMeta(createEmptyContext(), { welcome: "client-id^1^3" });
+
+    expect(html).toStartWith(
+      '<meta name="X-Better-Web-Welcome" content="client-id^1^3"><meta name="zeroad-token-context"'
+    );
+    expect(html).not.toContain('{"');
+
+    const content = /name="zeroad-token-context" content="([^"]*)"/.exec(html)?.[1] as string;
+    expect(parseTokenContext(unescapeHtml(content))).toEqual(createEmptyContext());
+  });
+
+  test("should escape attribute values", () => {
+    const html = renderTokenContextScript(cleanWeb, { nonce: '"><script>alert(1)</script>', welcome: "a'b&c" });
+
+    expect(html).toContain('nonce="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+    expect(html).toContain('content="a&#39;b&amp;c"');
+    expect(html.match(/<script/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, test, expect } from "bun:test";
+import {
+  applyTokenContext,
+  bindTokenContext,
+  createTokenContextStore,
+  parseTokenContext,
+  readTokenContext,
+  readWelcomeHeader,
+  TOKEN_CONTEXT_ELEMENT_ID,
+  TOKEN_CONTEXT_META_NAME,
+  WelcomeHeader,
+} from "../browser";
+import { createEmptyContext, TokenContext } from "../context";
+import { SERVER_HEADER } from "../constants";
+
+type FakeElement = {
+  hidden: boolean;
+  textContent: string | null;
+  getAttribute(name: string): string | null;
+  setAttribute(name: string, value: string): void;
+  hasAttribute(name: string): boolean;
+  removeAttribute(name: string): void;
+};
+
+function createElement(attributes: Record<string, string>, textContent: string | null = null): FakeElement {
+  const attrs = new Map(Object.entries(attributes));
+
+  return {
+    hidden: false,
+    textContent,
+    getAttribute: (name) => attrs.get(name) ?? null,
+    setAttribute: (name, value) => void attrs.set(name, value),
+    hasAttribute: (name) => attrs.has(name),
+    removeAttribute: (name) => void attrs.delete(name),
+  };
+}
+
+function createDocument(options: { script?: string; meta?: Record<string, string>; elements?: FakeElement[] }) {
+  const metas = Object.entries(options.meta ?? {}).map(([name, content]) => createElement({ name, content }));
+  const script = options.script === undefined ? null : createElement({ id: TOKEN_CONTEXT_ELEMENT_ID }, options.script);
+
+  return {
+    getElementById: (id: string) => (id === TOKEN_CONTEXT_ELEMENT_ID ? script : null),
+    querySelector: (selector: string) => {
+      const name = /^meta\[name="(.+)"\]$/.exec(selector)?.[1];
+      return metas.find((meta) => meta.getAttribute("name") === name) ?? null;
+    },
+    querySelectorAll: (selector: string) => {
+      expect(selector).toBe("[data-zeroad]");
+      return options.elements ?? [];
+    },
+  } as unknown as Document;
+}
+
+const context = (actions: Partial<TokenContext>): TokenContext => ({ ...createEmptyContext(), ...actions });
+
+describe("browser SDK", () => {
+  test("should parse serialized token contexts", () => {
+    expect(parseTokenContext('{"HIDE_ADVERTISEMENTS":true,"UNKNOWN":true,"DISABLE_CONTENT_PAYWALL":"yes"}')).toEqual(
+      context({ HIDE_ADVERTISEMENTS: true })
+    );
+    expect(parseTokenContext("null")).toBeUndefined();
+    expect(parseTokenContext("{broken")).toBeUndefined();
+    expect(parseTokenContext(undefined)).toBeUndefined();
+  });
+
+  test("should read the token context from the JSON bootstrap or meta tag", () => {
+    const json = JSON.stringify(context({ HIDE_ADVERTISEMENTS: true }));
+
+    expect(readTokenContext(createDocument({ script: json }))?.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(readTokenContext(createDocument({ meta: { [TOKEN_CONTEXT_META_NAME]: json } }))?.HIDE_ADVERTISEMENTS).toBe(
+      true
+    );
+    expect(readTokenContext(createDocument({}))).toBeUndefined();
+  });
+
+  test("should read the welcome header from responses and meta tags", () => {
+    const expected: WelcomeHeader = { clientId: "client-id", version: 1, features: ["CLEAN_WEB", "ONE_PASS"] };
+
+    expect(readWelcomeHeader(new Response(null, { headers: { [SERVER_HEADER.WELCOME]: "client-id^1^3" } }))).toEqual(
+      expected
+    );
+    expect(readWelcomeHeader(new Headers({ [SERVER_HEADER.WELCOME]: "client-id^1^3" }))).toEqual(expected);
+    expect(readWelcomeHeader(createDocument({ meta: { [SERVER_HEADER.WELCOME]: "client-id^1^3" } }))).toEqual(expected);
+    expect(readWelcomeHeader(createDocument({}))).toBeUndefined();
+  });
+
+  test("should notify subscribers of changes only", () => {
+    const store = createTokenContextStore();
+    const received: TokenContext[] = [];
+
+    const unsubscribe = store.subscribe((tokenContext) => received.push(tokenContext));
+
+    store.set(context({ HIDE_ADVERTISEMENTS: true }));
+    store.set(context({ HIDE_ADVERTISEMENTS: true }));
+    unsubscribe();
+    store.set(createEmptyContext());
+
+    expect(received).toEqual([context({ HIDE_ADVERTISEMENTS: true })]);
+    expect(store.get()).toBe(createEmptyContext());
+  });
+
+  test("should toggle data-zeroad elements", () => {
+    const ad = createElement({ "data-zeroad": "ads" });
+    const paywall = createElement({ "data-zeroad": "paywall" });
+    const alreadyHidden = Object.assign(createElement({ "data-zeroad": "marketing" }), { hidden: true });
+    const root = createDocument({ elements: [ad, paywall, alreadyHidden] });
+
+    const store = createTokenContextStore(context({ HIDE_ADVERTISEMENTS: true }));
+    const unbind = bindTokenContext(store, root);
+
+    expect([ad.hidden, paywall.hidden, alreadyHidden.hidden]).toEqual([true, false, true]);
+
+    store.set(context({ DISABLE_CONTENT_PAYWALL: true }));
+    expect([ad.hidden, paywall.hidden, alreadyHidden.hidden]).toEqual([false, true, true]);
+
+    unbind();
+    store.set(createEmptyContext());
+    expect(paywall.hidden).toBe(true);
+
+    applyTokenContext(createEmptyContext(), root);
+    expect([ad.hidden, paywall.hidden, alreadyHidden.hidden]).toEqual([false, false, true]);
+  });
+});
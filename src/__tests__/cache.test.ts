@@ -0,0 +1,380 @@
+import { randomUUID } from "crypto";
+import { describe, test, expect, beforeEach, afterEach, spyOn, setSystemTime } from "bun:test";
+import {
+  configureCaching,
+  createTokenCache,
+  deserializeCacheEntry,
+  headerCache,
+  memoryCacheStore,
+  serializeCacheEntry,
+  setCacheStore,
+  TokenCacheEntry,
+  TokenCacheStore,
+} from "../headers/client/cache";
+import { encodeClientHeader, parseClientToken } from "../headers/client";
+import { CURRENT_PROTOCOL_VERSION, FEATURE, ZEROAD_NETWORK_PUBLIC_KEY } from "../constants";
+import { getCryptoBackend } from "../backend";
+import { generateKeys } from "../crypto";
+import { Site } from "../site";
+
+// Mimics a Redis client: async, string values only, TTL handled by the server
+function createFakeRedis() {
+  const values = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    values,
+    async get(key: string) {
+      const item = values.get(key);
+      if (!item || item.expiresAt <= Date.now()) return null;
+      return item.value;
+    },
+    async set(key: string, value: string, _mode: "PX", ttl: number) {
+      values.set(key, { value, expiresAt: Date.now() + ttl });
+    },
+    async del(key: string) {
+      values.delete(key);
+    },
+    async flushdb() {
+      values.clear();
+    },
+  };
+}
+
+function createRedisCacheStore(redis: ReturnType<typeof createFakeRedis>): TokenCacheStore {
+  return {
+    async get(key) {
+      const value = await redis.get(`zeroad:${key}`);
+      return value ? deserializeCacheEntry(value) : undefined;
+    },
+    async set(key, entry, ttl) {
+      await redis.set(`zeroad:${key}`, serializeCacheEntry(entry), "PX", ttl);
+    },
+    async delete(key) {
+      await redis.del(`zeroad:${key}`);
+    },
+    async clear() {
+      await redis.flushdb();
+    },
+  };
+}
+
+describe("Token cache store", () => {
+  let privateKey: string;
+  let publicKey: string;
+  let clientId: string;
+  let headerValue: string;
+
+  const features = [FEATURE.CLEAN_WEB];
+
+  beforeEach(async () => {
+    const keys = generateKeys();
+
+    privateKey = keys.privateKey;
+    publicKey = keys.publicKey;
+    clientId = randomUUID();
+
+    headerValue = await encodeClientHeader(
+      { version: CURRENT_PROTOCOL_VERSION, expiresAt: new Date(Date.now() + 3600 * 1000), features },
+      privateKey
+    );
+
+    configureCaching({ enabled: true, ttl: 5000, maxSize: 100 });
+    await memoryCacheStore.clear();
+  });
+
+  afterEach(() => {
+    setCacheStore(memoryCacheStore);
+  });
+
+  test("should cache decoded tokens in the default memory store", async () => {
+    const verify = spyOn(getCryptoBackend(), "verify");
+
+    await parseClientToken(headerValue, { clientId, publicKey, features });
+    const tokenContext = await parseClientToken(headerValue, { clientId, publicKey, features });
+
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(headerCache.get(`${publicKey}.${headerValue}`)?.accessCount).toBe(2);
+
+    verify.mockRestore();
+  });
+
+  test("should use a custom async store passed through options", async () => {
+    const redis = createFakeRedis();
+    const cache = createTokenCache({ store: createRedisCacheStore(redis) });
+    const verify = spyOn(getCryptoBackend(), "verify");
+
+    await parseClientToken(headerValue, { clientId, publicKey, features, cache });
+    const tokenContext = await parseClientToken(headerValue, { clientId, publicKey, features, cache });
+
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(redis.values.has(`zeroad:${publicKey}.${headerValue}`)).toBe(true);
+    expect(headerCache.size).toBe(0);
+
+    verify.mockRestore();
+  });
+
+  test("should use a custom store set globally", async () => {
+    const redis = createFakeRedis();
+    setCacheStore(createRedisCacheStore(redis));
+
+    await parseClientToken(headerValue, { clientId, publicKey, features });
+    expect(redis.values.size).toBe(1);
+  });
+
+  test("should not share verified tokens between sites trusting different keys", async () => {
+    const redis = createFakeRedis();
+    const staging = generateKeys();
+    const stagingToken = await encodeClientHeader(
+      { version: CURRENT_PROTOCOL_VERSION, expiresAt: new Date(Date.now() + 3600 * 1000), features },
+      staging.privateKey
+    );
+
+    const cacheStore = createRedisCacheStore(redis);
+    const prodSite = Site({ clientId, features, publicKeys: [{ publicKey }], cacheStore });
+    const stagingSite = Site({ clientId, features, publicKeys: [{ publicKey: staging.publicKey }], cacheStore });
+
+    expect((await prodSite.parseClientTokenDetailed(stagingToken)).status).toBe("bad_signature");
+    expect((await stagingSite.parseClientTokenDetailed(stagingToken)).status).toBe("valid");
+    expect((await prodSite.parseClientTokenDetailed(stagingToken)).status).toBe("bad_signature");
+    expect((await stagingSite.parseClientTokenDetailed(stagingToken)).status).toBe("valid");
+    expect(redis.values.size).toBe(2);
+  });
+
+  test("should drop stale entries returned by the store", async () => {
+    const entries = new Map<string, TokenCacheEntry>();
+    const cache = createTokenCache({
+      store: {
+        get: (key) => entries.get(key),
+        set: (key, entry) => void entries.set(key, entry),
+        delete: (key) => void entries.delete(key),
+        clear: () => entries.clear(),
+      },
+    });
+
+    entries.set(`${publicKey}.${headerValue}`, { data: undefined, effectiveExpiry: Date.now() - 1 });
+
+    const tokenContext = await parseClientToken(headerValue, { clientId, publicKey, features, cache });
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(entries.get(`${publicKey}.${headerValue}`)?.data?.flags).toBe(1);
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 1, size: undefined });
+  });
+
+  test("should not share entries between token caches", async () => {
+    const first = createTokenCache();
+    const second = createTokenCache({ config: { enabled: false } });
+    const verify = spyOn(getCryptoBackend(), "verify");
+
+    await parseClientToken(headerValue, { clientId, publicKey, features, cache: first });
+    await parseClientToken(headerValue, { clientId, publicKey, features, cache: first });
+    await parseClientToken(headerValue, { clientId, publicKey, features, cache: second });
+    await parseClientToken(headerValue, { clientId, publicKey, features, cache: second });
+
+    expect(verify).toHaveBeenCalledTimes(3);
+    expect(first.getStats().size).toBe(1);
+    expect(second.getStats().size).toBe(0);
+    expect(headerCache.size).toBe(0);
+
+    verify.mockRestore();
+  });
+
+  test("should reject invalid configuration", () => {
+    expect(() => createTokenCache({ config: { ttl: -1 } })).toThrow(/Cache TTL must be >= 0/);
+    expect(() => createTokenCache().configure({ maxSize: 0 })).toThrow(/Cache maxSize must be >= 1/);
+  });
+
+  test("should fall back to verification when the store fails", async () => {
+    const cache = createTokenCache({
+      store: {
+        get: () => Promise.reject(new Error("Connection refused")),
+        set: () => Promise.reject(new Error("Connection refused")),
+        delete: () => undefined,
+        clear: () => undefined,
+      },
+    });
+
+    const tokenContext = await parseClientToken(headerValue, { clientId, publicKey, features, cache });
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+  });
+
+  test("should round-trip entries through serialization", () => {
+    const entry: TokenCacheEntry = {
+      data: { version: 1, expiresAt: new Date(1_700_000_000_000), flags: 3, clientId },
+      effectiveExpiry: 1_700_000_000_000,
+    };
+
+    expect(deserializeCacheEntry(serializeCacheEntry(entry))).toEqual(entry);
+
+    const v2Entry: TokenCacheEntry = {
+      data: { ...entry.data!, version: 2, keyId: "2026-a", issuedAt: new Date(1_600_000_000_000) },
+      effectiveExpiry: 1_700_000_000_000,
+    };
+    expect(deserializeCacheEntry(serializeCacheEntry(v2Entry))).toEqual(v2Entry);
+    expect(deserializeCacheEntry(serializeCacheEntry({ data: undefined, effectiveExpiry: 1 }))).toEqual({
+      data: undefined,
+      effectiveExpiry: 1,
+    });
+  });
+
+  describe("memory store eviction", () => {
+    const entry = (effectiveExpiry = Date.now() + 60_000): TokenCacheEntry => ({ data: undefined, effectiveExpiry });
+
+    test("should evict the least frequently used entry first", async () => {
+      const cache = createTokenCache({ config: { maxSize: 3 } });
+      const now = Date.now();
+
+      for (const key of ["a", "b", "c"]) await cache.set(key, entry(), now);
+      await cache.get("a", now);
+      await cache.get("c", now);
+
+      await cache.set("d", entry(), now);
+
+      expect(await cache.get("b", now)).toBeUndefined();
+      expect(await cache.get("a", now)).toBeDefined();
+      expect(await cache.get("c", now)).toBeDefined();
+      expect(await cache.get("d", now)).toBeDefined();
+    });
+
+    test("should evict the least recently used entry among equal access counts", async () => {
+      const cache = createTokenCache({ config: { maxSize: 3 } });
+      const now = Date.now();
+
+      for (const key of ["a", "b", "c"]) await cache.set(key, entry(), now);
+      for (const key of ["c", "a", "b"]) await cache.get(key, now);
+
+      cache.configure({ maxSize: 2 });
+
+      expect(cache.getStats().size).toBe(2);
+      expect(await cache.get("c", now)).toBeUndefined();
+    });
+
+    test("should trim down when maxSize shrinks", async () => {
+      const cache = createTokenCache({ config: { maxSize: 10 } });
+      const now = Date.now();
+
+      for (let i = 0; i < 10; i++) {
+        await cache.set(`key-${i}`, entry(), now);
+        for (let j = 0; j < i; j++) await cache.get(`key-${i}`, now);
+      }
+
+      cache.configure({ maxSize: 2 });
+
+      expect(cache.getStats().size).toBe(2);
+      expect(await cache.get("key-9", now)).toBeDefined();
+      expect(await cache.get("key-8", now)).toBeDefined();
+    });
+
+    test("should sweep expired entries on insert", async () => {
+      const cache = createTokenCache({ config: { maxSize: 100 } });
+      const now = Date.now();
+      setSystemTime(now);
+
+      await cache.set("expired-1", entry(now + 1), now);
+      await cache.set("expired-2", entry(now + 1), now);
+      await cache.set("fresh", entry(), now);
+      expect(cache.getStats().size).toBe(3);
+
+      setSystemTime(now + 10);
+      await cache.set("later", entry(), now + 10);
+      setSystemTime();
+
+      expect(cache.getStats().size).toBe(2);
+    });
+
+    test("should expire entries lazily on read", async () => {
+      const cache = createTokenCache();
+      const now = Date.now();
+
+      await cache.set("a", entry(now + 1), now);
+      expect(await cache.get("a", now + 1)).toBeUndefined();
+      expect(cache.getStats().size).toBe(0);
+    });
+  });
+});
+
+describe("Request coalescing", () => {
+  let privateKey: string;
+  let publicKey: string;
+  let clientId: string;
+
+  const features = [FEATURE.CLEAN_WEB];
+
+  beforeEach(() => {
+    const keys = generateKeys();
+
+    privateKey = keys.privateKey;
+    publicKey = keys.publicKey;
+    clientId = randomUUID();
+  });
+
+  const encode = (expiresAt = new Date(Date.now() + 3600 * 1000)) =>
+    encodeClientHeader({ version: CURRENT_PROTOCOL_VERSION, expiresAt, features }, privateKey);
+
+  test("should verify concurrent requests with the same token only once", async () => {
+    const headerValue = await encode();
+    const cache = createTokenCache();
+    const verify = spyOn(getCryptoBackend(), "verify");
+
+    const contexts = await Promise.all(
+      Array.from({ length: 50 }, () => parseClientToken(headerValue, { clientId, publicKey, features, cache }))
+    );
+
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(contexts.every((context) => context.HIDE_ADVERTISEMENTS)).toBe(true);
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 50, size: 1 });
+
+    verify.mockRestore();
+  });
+
+  test("should coalesce even when caching is disabled", async () => {
+    const headerValue = await encode();
+    const cache = createTokenCache({ config: { enabled: false } });
+    const verify = spyOn(getCryptoBackend(), "verify");
+
+    await Promise.all(
+      Array.from({ length: 10 }, () => parseClientToken(headerValue, { clientId, publicKey, features, cache }))
+    );
+    expect(verify).toHaveBeenCalledTimes(1);
+
+    await parseClientToken(headerValue, { clientId, publicKey, features, cache });
+    expect(verify).toHaveBeenCalledTimes(2);
+
+    verify.mockRestore();
+  });
+
+  test("should not share verifications between different tokens or public keys", async () => {
+    const [first, second] = await Promise.all([encode(), encode()]);
+    const cache = createTokenCache();
+    const verify = spyOn(getCryptoBackend(), "verify");
+
+    await Promise.all([
+      parseClientToken(first, { clientId, publicKey, features, cache }),
+      parseClientToken(first, { clientId, publicKey: ZEROAD_NETWORK_PUBLIC_KEY, features, cache }),
+      parseClientToken(second, { clientId, publicKey, features, cache }),
+    ]);
+
+    expect(verify).toHaveBeenCalledTimes(3);
+    verify.mockRestore();
+  });
+
+  test("should not keep failed verifications pending", async () => {
+    const headerValue = await encode();
+    const cache = createTokenCache({ config: { enabled: false } });
+    const verify = spyOn(getCryptoBackend(), "verify").mockImplementationOnce(() =>
+      Promise.reject(new Error("Backend failure"))
+    );
+
+    const [failed] = await Promise.all([
+      parseClientToken(headerValue, { clientId, publicKey, features, cache }),
+      parseClientToken(headerValue, { clientId, publicKey, features, cache }),
+    ]);
+    expect(failed.HIDE_ADVERTISEMENTS).toBe(false);
+
+    const tokenContext = await parseClientToken(headerValue, { clientId, publicKey, features, cache });
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(verify).toHaveBeenCalledTimes(2);
+
+    verify.mockRestore();
+  });
+});
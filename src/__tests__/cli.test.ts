@@ -0,0 +1,132 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomUUID } from "crypto";
+import { describe, test, expect, beforeEach } from "bun:test";
+import { parseDuration, parseFeatures, runCli } from "../tools/commands";
+import { FEATURE } from "../constants";
+import { generateKeys } from "../crypto";
+
+async function cli(...argv: string[]) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+
+  const exitCode = await runCli(argv, {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  });
+
+  return { exitCode, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+}
+
+describe("CLI", () => {
+  let privateKeyFile: string;
+  let publicKey: string;
+
+  beforeEach(() => {
+    const keys = generateKeys();
+    const dir = mkdtempSync(join(tmpdir(), "zeroad-cli-"));
+
+    privateKeyFile = join(dir, "private.key");
+    writeFileSync(privateKeyFile, `${keys.privateKey}\n`);
+    publicKey = keys.publicKey;
+  });
+
+  test("should generate keys", async () => {
+    const { exitCode, stdout } = await cli("keys", "--json");
+
+    expect(exitCode).toBe(0);
+    expect(Object.keys(JSON.parse(stdout))).toEqual(["publicKey", "privateKey"]);
+    expect((await cli("keys")).stdout).toMatch(/^Public Key: {2}\S+\nPrivate Key: \S+$/);
+  });
+
+  test("should mint, inspect and verify a developer token", async () => {
+    const clientId = randomUUID();
+    const minted = await cli(
+      "mint",
+      "--private-key-file",
+      privateKeyFile,
+      "--features",
+      "clean_web",
+      "--expires-in",
+      "2h",
+      "--client-id",
+      clientId,
+      "--json"
+    );
+
+    expect(minted.exitCode).toBe(0);
+    const { token, features } = JSON.parse(minted.stdout);
+    expect(features).toEqual(["CLEAN_WEB"]);
+
+    const inspected = JSON.parse((await cli("inspect", token, "--json")).stdout);
+    expect(inspected).toMatchObject({ version: 1, flags: 1, features: ["CLEAN_WEB"], clientId, expired: false });
+    expect(inspected.nonce).toMatch(/^[0-9a-f]{8}$/);
+
+    const verified = await cli("verify", token, "--public-key", publicKey, "--client-id", clientId, "--json");
+    expect(verified.exitCode).toBe(0);
+    expect(JSON.parse(verified.stdout)).toMatchObject({ status: "valid", clientId, publicKey });
+
+    const mismatch = await cli("verify", token, "--public-key", publicKey, "--client-id", "another-site");
+    expect(mismatch.exitCode).toBe(1);
+    expect(mismatch.stdout).toContain("Status:     client_mismatch");
+
+    const forged = await cli("verify", token, "--json");
+    expect(forged.exitCode).toBe(1);
+    expect(JSON.parse(forged.stdout).status).toBe("bad_signature");
+  });
+
+  test("should mint V2 tokens carrying a key id", async () => {
+    const minted = await cli("mint", "--private-key-file", privateKeyFile, "--key-id", "dev-1", "--json");
+    const { token } = JSON.parse(minted.stdout);
+
+    const inspected = JSON.parse((await cli("inspect", token, "--json")).stdout);
+    expect(inspected).toMatchObject({ version: 2, keyId: "dev-1", features: ["CLEAN_WEB", "ONE_PASS"] });
+    expect(Date.parse(inspected.issuedAt)).toBeLessThanOrEqual(Date.now());
+  });
+
+  test("should audit saved HTML fixtures", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "zeroad-audit-"));
+    const clean = join(dir, "clean.html");
+    const dirty = join(dir, "dirty.html");
+
+    writeFileSync(clean, "<p>Hello</p>");
+    writeFileSync(
+      dirty,
+      '<script src="https://pagead2.googlesyndication.com/ads.js"></script><div data-zeroad="paywall"></div>'
+    );
+
+    expect(await cli("audit", clean)).toMatchObject({ exitCode: 0, stdout: "Result: No findings in 1 file(s)" });
+
+    const audited = await cli("audit", clean, dirty, "--json");
+    expect(audited.exitCode).toBe(1);
+    expect(JSON.parse(audited.stdout).files[1].findings.map(({ rule }: { rule: string }) => rule)).toEqual([
+      "ad-network",
+      "marked-element",
+    ]);
+
+    expect((await cli("audit", dirty, "--features", "CLEAN_WEB")).stdout).not.toContain("paywall");
+  });
+
+  test("should report usage errors", async () => {
+    expect((await cli()).exitCode).toBe(0);
+    expect((await cli("unknown")).exitCode).toBe(2);
+
+    const missingKey = await cli("mint", "--json");
+    expect(missingKey.exitCode).toBe(2);
+    expect(JSON.parse(missingKey.stderr)).toEqual({ error: "--private-key-file is required" });
+
+    expect((await cli("inspect")).stderr).toMatch(/Missing <token> argument/);
+    expect((await cli("inspect", "not-a-token")).stderr).toBe("Error: Could not decode the token");
+  });
+
+  test("should parse durations and features", () => {
+    expect(parseDuration("90")).toBe(90_000);
+    expect(parseDuration("15m")).toBe(15 * 60_000);
+    expect(parseDuration("7d")).toBe(7 * 86_400_000);
+    expect(() => parseDuration("soon")).toThrow(/Invalid duration/);
+
+    expect(parseFeatures("CLEAN_WEB, one_pass")).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+    expect(() => parseFeatures("NO_ADS")).toThrow(/Unknown feature "NO_ADS"/);
+  });
+});
@@ -1,8 +1,17 @@
 import { randomUUID } from "crypto";
-import { describe, test, expect, beforeEach } from "bun:test";
-import { decodeClientHeader, encodeClientHeader, parseClientToken } from "../headers/client";
-import { CURRENT_PROTOCOL_VERSION, FEATURE, ZEROAD_NETWORK_PUBLIC_KEY } from "../constants";
-import { generateKeys } from "../crypto";
+import { describe, test, expect, beforeEach, spyOn } from "bun:test";
+import {
+  decodeClientHeader,
+  encodeClientHeader,
+  inspectClientHeader,
+  parseClientToken,
+  parseClientTokenDetailed,
+} from "../headers/client";
+import { CURRENT_PROTOCOL_VERSION, FEATURE, PROTOCOL_VERSION, ZEROAD_NETWORK_PUBLIC_KEY } from "../constants";
+import { generateKeys, sign } from "../crypto";
+import { createTokenCache } from "../headers/client/cache";
+import { getCryptoBackend } from "../backend";
+import { fromBase64, toBase64 } from "../helpers";
 
 describe("Client Headers", () => {
   let privateKey: string;
@@ -376,4 +385,323 @@ describe("Client Headers", () => {
       });
     });
   });
+
+  describe("parseClientTokenDetailed()", () => {
+    const expiresIn = (ms: number) => new Date(Date.now() + ms);
+
+    test("should report a valid token along with its decoded content", async () => {
+      const expiresAt = expiresIn(24 * 3600 * 1000);
+      const features = [FEATURE.CLEAN_WEB];
+      const headerValue = await encodeClientHeader(
+        { version: CURRENT_PROTOCOL_VERSION, expiresAt, features, clientId },
+        privateKey
+      );
+
+      const result = await parseClientTokenDetailed(headerValue, { clientId, publicKey, features });
+      expect(result.status).toBe("valid");
+      expect(result.context.HIDE_ADVERTISEMENTS).toBe(true);
+      expect(result.token).toEqual({
+        version: CURRENT_PROTOCOL_VERSION,
+        expiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000),
+        flags: 1,
+        clientId,
+      });
+    });
+
+    test("should report missing tokens", async () => {
+      const options = { clientId, publicKey, features: [FEATURE.CLEAN_WEB] };
+
+      expect(await parseClientTokenDetailed(undefined, options)).toEqual({
+        status: "missing",
+        context: await parseClientToken(undefined, options),
+      });
+      expect((await parseClientTokenDetailed([], options)).status).toBe("missing");
+      expect((await parseClientTokenDetailed("", options)).status).toBe("missing");
+    });
+
+    test("should report malformed tokens", async () => {
+      const options = { clientId, publicKey, features: [FEATURE.CLEAN_WEB], bypassCache: true };
+
+      expect((await parseClientTokenDetailed("no-separator", options)).status).toBe("malformed");
+
+      // Correctly signed, but too short to hold a V1 payload
+      const payload = new Uint8Array([CURRENT_PROTOCOL_VERSION, 1, 2]);
+      const signature = new Uint8Array(await sign(payload.buffer, privateKey));
+      const result = await parseClientTokenDetailed(`${toBase64(payload)}.${toBase64(signature)}`, options);
+      expect(result.status).toBe("malformed");
+      expect(result.token).toBeUndefined();
+    });
+
+    test("should report forged tokens", async () => {
+      const headerValue = await encodeClientHeader(
+        { version: CURRENT_PROTOCOL_VERSION, expiresAt: expiresIn(3600 * 1000), features: [FEATURE.CLEAN_WEB] },
+        privateKey
+      );
+
+      const result = await parseClientTokenDetailed(headerValue, {
+        clientId,
+        publicKey: ZEROAD_NETWORK_PUBLIC_KEY,
+        features: [FEATURE.CLEAN_WEB],
+      });
+
+      expect(result.status).toBe("bad_signature");
+      expect(result.context.HIDE_ADVERTISEMENTS).toBe(false);
+    });
+
+    test("should report unsupported protocol versions", async () => {
+      const headerValue = await encodeClientHeader(
+        { version: 99 as never, expiresAt: expiresIn(3600 * 1000), features: [FEATURE.CLEAN_WEB] },
+        privateKey
+      );
+
+      const result = await parseClientTokenDetailed(headerValue, {
+        clientId,
+        publicKey,
+        features: [FEATURE.CLEAN_WEB],
+      });
+      expect(result.status).toBe("unsupported_version");
+    });
+
+    test("should report expired tokens with their expiry", async () => {
+      const expiresAt = expiresIn(-3600 * 1000);
+      const headerValue = await encodeClientHeader(
+        { version: CURRENT_PROTOCOL_VERSION, expiresAt, features: [FEATURE.ONE_PASS] },
+        privateKey
+      );
+
+      const result = await parseClientTokenDetailed(headerValue, { clientId, publicKey, features: [FEATURE.ONE_PASS] });
+      expect(result.status).toBe("expired");
+      expect(result.context.DISABLE_CONTENT_PAYWALL).toBe(false);
+      expect(result.token?.expiresAt).toEqual(new Date(Math.floor(expiresAt.getTime() / 1000) * 1000));
+    });
+
+    test("should report developer tokens issued for another site", async () => {
+      const headerValue = await encodeClientHeader(
+        {
+          version: CURRENT_PROTOCOL_VERSION,
+          expiresAt: expiresIn(3600 * 1000),
+          features: [FEATURE.CLEAN_WEB],
+          clientId,
+        },
+        privateKey
+      );
+
+      const result = await parseClientTokenDetailed(headerValue, {
+        clientId: randomUUID(),
+        publicKey,
+        features: [FEATURE.CLEAN_WEB],
+      });
+
+      expect(result.status).toBe("client_mismatch");
+      expect(result.token?.clientId).toBe(clientId);
+    });
+
+    test("should keep the rejection reason for cached tokens", async () => {
+      const headerValue = await encodeClientHeader(
+        { version: CURRENT_PROTOCOL_VERSION, expiresAt: expiresIn(3600 * 1000), features: [FEATURE.CLEAN_WEB] },
+        privateKey
+      );
+      const options = { clientId, publicKey: ZEROAD_NETWORK_PUBLIC_KEY, features: [FEATURE.CLEAN_WEB] };
+
+      expect((await parseClientTokenDetailed(headerValue, options)).status).toBe("bad_signature");
+      expect((await parseClientTokenDetailed(headerValue, options)).status).toBe("bad_signature");
+    });
+  });
+
+  describe("trusted key sets", () => {
+    const hour = 3600 * 1000;
+    let nextKeys: { privateKey: string; publicKey: string };
+
+    beforeEach(() => {
+      nextKeys = generateKeys();
+    });
+
+    const encode = (key: string) =>
+      encodeClientHeader(
+        { version: CURRENT_PROTOCOL_VERSION, expiresAt: new Date(Date.now() + hour), features: [FEATURE.CLEAN_WEB] },
+        key
+      );
+
+    test("should accept tokens signed by any trusted key and report the matching one", async () => {
+      const publicKeys = [
+        { id: "current", publicKey },
+        { id: "next", publicKey: nextKeys.publicKey },
+      ];
+      const options = { clientId, publicKeys, features: [FEATURE.CLEAN_WEB], bypassCache: true };
+
+      const current = await parseClientTokenDetailed(await encode(privateKey), options);
+      expect(current.status).toBe("valid");
+      expect(current.verifiedKey).toEqual({ id: "current", publicKey });
+
+      const next = await parseClientTokenDetailed(await encode(nextKeys.privateKey), options);
+      expect(next.status).toBe("valid");
+      expect(next.verifiedKey).toEqual({ id: "next", publicKey: nextKeys.publicKey });
+    });
+
+    test("should skip keys outside of their validity window", async () => {
+      const notAfter = new Date(Date.now() - 1);
+      const publicKeys = [
+        { id: "retired", publicKey, notAfter },
+        { id: "scheduled", publicKey: nextKeys.publicKey, notBefore: new Date(Date.now() + hour) },
+      ];
+      const options = { clientId, publicKeys, features: [FEATURE.CLEAN_WEB], bypassCache: true };
+
+      expect((await parseClientTokenDetailed(await encode(privateKey), options)).status).toBe("bad_signature");
+      expect((await parseClientTokenDetailed(await encode(nextKeys.privateKey), options)).status).toBe("bad_signature");
+    });
+
+    test("should try the key matching the `keyId` hint first", async () => {
+      const publicKeys = [
+        { id: "current", publicKey },
+        { id: "next", publicKey: nextKeys.publicKey },
+      ];
+      const headerValue = await encode(nextKeys.privateKey);
+      const verify = spyOn(getCryptoBackend(), "verify");
+
+      const result = await parseClientTokenDetailed(headerValue, {
+        clientId,
+        publicKeys,
+        keyId: "next",
+        features: [FEATURE.CLEAN_WEB],
+        bypassCache: true,
+      });
+
+      expect(result.verifiedKey?.id).toBe("next");
+      expect(verify).toHaveBeenCalledTimes(1);
+
+      // A stale hint still falls back to the other keys
+      expect(await decodeClientHeader(await encode(privateKey), publicKeys, "next")).toBeDefined();
+
+      verify.mockRestore();
+    });
+
+    test("should not cache tokens beyond their key's validity", async () => {
+      const notAfter = new Date(Date.now() + 50);
+      const cache = createTokenCache({ config: { ttl: hour } });
+      const publicKeys = [{ publicKey, notAfter }];
+      const headerValue = await encode(privateKey);
+
+      await parseClientToken(headerValue, { clientId, publicKeys, features: [FEATURE.CLEAN_WEB], cache });
+      expect(await cache.get(headerValue, notAfter.getTime())).toBeUndefined();
+    });
+  });
+
+  describe("protocol V2", () => {
+    const hour = 3600 * 1000;
+    const seconds = (date: Date) => new Date(Math.floor(date.getTime() / 1000) * 1000);
+
+    // Re-signs a modified payload of `headerValue`
+    const resign = async (headerValue: string, modify: (payload: Uint8Array) => Uint8Array) => {
+      const payload = modify(fromBase64(headerValue.split(".")[0]));
+      const signature = new Uint8Array(await sign(payload.slice().buffer, privateKey));
+      return `${toBase64(payload)}.${toBase64(signature)}`;
+    };
+
+    test("should round-trip the key id, issued-at and a 64-bit expiry", async () => {
+      const issuedAt = new Date();
+      const expiresAt = new Date("2150-01-01T00:00:00Z"); // Past the uint32 range of V1
+
+      const headerValue = await encodeClientHeader(
+        { version: PROTOCOL_VERSION.V_2, expiresAt, issuedAt, features: [FEATURE.ONE_PASS], clientId, keyId: "2026-a" },
+        privateKey
+      );
+
+      expect(await decodeClientHeader(headerValue, publicKey)).toEqual({
+        version: PROTOCOL_VERSION.V_2,
+        expiresAt,
+        issuedAt: seconds(issuedAt),
+        flags: FEATURE.ONE_PASS,
+        clientId,
+        keyId: "2026-a",
+      });
+      expect(inspectClientHeader(headerValue)?.nonce).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    test("should skip unknown extension tags", async () => {
+      const headerValue = await encodeClientHeader(
+        {
+          version: PROTOCOL_VERSION.V_2,
+          expiresAt: new Date(Date.now() + hour),
+          features: [FEATURE.CLEAN_WEB],
+          clientId,
+          extensions: [
+            { tag: 200, value: new Uint8Array([1, 2, 3]) },
+            { tag: 201, value: new Uint8Array(0) },
+          ],
+        },
+        privateKey
+      );
+
+      const result = await parseClientTokenDetailed(headerValue, {
+        clientId,
+        publicKey,
+        features: [FEATURE.CLEAN_WEB],
+        bypassCache: true,
+      });
+      expect(result.status).toBe("valid");
+      expect(result.token?.clientId).toBe(clientId);
+      expect(result.context.HIDE_ADVERTISEMENTS).toBe(true);
+    });
+
+    test("should reject truncated payloads and extensions", async () => {
+      const options = { clientId, publicKey, features: [FEATURE.CLEAN_WEB], bypassCache: true };
+      const headerValue = await encodeClientHeader(
+        { version: PROTOCOL_VERSION.V_2, expiresAt: new Date(Date.now() + hour), features: [], clientId },
+        privateKey
+      );
+
+      const truncatedExtension = await resign(headerValue, (payload) => payload.subarray(0, payload.byteLength - 1));
+      expect((await parseClientTokenDetailed(truncatedExtension, options)).status).toBe("malformed");
+
+      const truncatedHeader = await resign(headerValue, (payload) => payload.subarray(0, 20));
+      expect((await parseClientTokenDetailed(truncatedHeader, options)).status).toBe("malformed");
+    });
+
+    test("should reject invalid claims when encoding", async () => {
+      const data = { version: PROTOCOL_VERSION.V_2, expiresAt: new Date(), features: [] };
+
+      await expect(encodeClientHeader({ ...data, keyId: "k".repeat(256) }, privateKey)).rejects.toThrow(/255 bytes/);
+      await expect(
+        encodeClientHeader({ ...data, extensions: [{ tag: 0, value: new Uint8Array(0) }] }, privateKey)
+      ).rejects.toThrow(/Invalid extension tag/);
+    });
+
+    test("should try the key named by the token first", async () => {
+      const nextKeys = generateKeys();
+      const publicKeys = [
+        { id: "current", publicKey },
+        { id: "next", publicKey: nextKeys.publicKey },
+      ];
+      const headerValue = await encodeClientHeader(
+        { version: PROTOCOL_VERSION.V_2, expiresAt: new Date(Date.now() + hour), features: [], keyId: "next" },
+        nextKeys.privateKey
+      );
+      const verify = spyOn(getCryptoBackend(), "verify");
+
+      const result = await parseClientTokenDetailed(headerValue, {
+        clientId,
+        publicKeys,
+        features: [FEATURE.CLEAN_WEB],
+        bypassCache: true,
+      });
+
+      expect(result.verifiedKey?.id).toBe("next");
+      expect(verify).toHaveBeenCalledTimes(1);
+
+      verify.mockRestore();
+    });
+
+    test("should keep accepting V1 tokens next to V2 tokens", async () => {
+      const options = { clientId, publicKey, features: [FEATURE.CLEAN_WEB], bypassCache: true };
+      const expiresAt = new Date(Date.now() + hour);
+
+      for (const version of [PROTOCOL_VERSION.V_1, PROTOCOL_VERSION.V_2]) {
+        const headerValue = await encodeClientHeader({ version, expiresAt, features: [FEATURE.CLEAN_WEB] }, privateKey);
+        const result = await parseClientTokenDetailed(headerValue, options);
+
+        expect(result.status).toBe("valid");
+        expect(result.token?.version).toBe(version);
+      }
+    });
+  });
 });
@@ -0,0 +1,205 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+import { randomUUID } from "crypto";
+import { describe, test, expect, beforeEach } from "bun:test";
+import { CLIENT_HEADER, CURRENT_PROTOCOL_VERSION, FEATURE, SERVER_HEADER } from "../constants";
+import { encodeClientHeader, TokenContext } from "../headers/client";
+import { generateKeys } from "../crypto";
+import { requireFeatures, zeroAd } from "../express";
+import { createEmptyContext } from "../headers/client";
+import { Site } from "../site";
+import { AuditReport, createComplianceAuditor } from "../audit";
+
+function createRequest(url: string, headers: Record<string, string> = {}) {
+  const req = new IncomingMessage(new Socket());
+  req.url = url;
+  req.headers = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+  return req as IncomingMessage & { tokenContext?: TokenContext };
+}
+
+function run(middleware: ReturnType<typeof zeroAd>, req: ReturnType<typeof createRequest>) {
+  const res = new ServerResponse(req) as ServerResponse & { locals?: Record<string, unknown> };
+
+  return new Promise<{ res: typeof res; err?: unknown }>((resolve) => {
+    middleware(req, res, (err) => resolve({ res, err }));
+  });
+}
+
+describe("Express middleware", () => {
+  let privateKey: string;
+  let publicKey: string;
+  let clientId: string;
+  let headerValue: string;
+
+  beforeEach(async () => {
+    const keys = generateKeys();
+
+    privateKey = keys.privateKey;
+    publicKey = keys.publicKey;
+    clientId = randomUUID();
+
+    headerValue = await encodeClientHeader(
+      {
+        version: CURRENT_PROTOCOL_VERSION,
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+        features: [FEATURE.CLEAN_WEB],
+      },
+      privateKey
+    );
+  });
+
+  test("should set headers and attach the token context", async () => {
+    const middleware = zeroAd({ clientId, features: [FEATURE.CLEAN_WEB], publicKeys: [{ publicKey }] });
+    const req = createRequest("/articles/1?page=2", { [CLIENT_HEADER.HELLO]: headerValue });
+
+    const { res, err } = await run(middleware, req);
+
+    expect(err).toBeUndefined();
+    expect(res.getHeader(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+    expect(res.getHeader("Vary")).toBe(CLIENT_HEADER.HELLO);
+    expect(req.tokenContext?.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(res.locals?.tokenContext).toBe(req.tokenContext);
+  });
+
+  test("should accept an existing Site instance and keep existing Vary values", async () => {
+    const site = Site({ clientId, features: [FEATURE.CLEAN_WEB] });
+    const req = createRequest("/");
+    const res = new ServerResponse(req) as ServerResponse & { locals?: Record<string, unknown> };
+    res.setHeader("Vary", "Accept-Encoding");
+    res.locals = { user: "someone" };
+
+    await new Promise((resolve) => zeroAd({ site })(req, res, resolve));
+
+    expect(res.getHeader("Vary")).toBe(`Accept-Encoding, ${CLIENT_HEADER.HELLO}`);
+    expect(res.locals.user).toBe("someone");
+    expect(req.tokenContext?.HIDE_ADVERTISEMENTS).toBe(false);
+  });
+
+  test("should skip excluded paths with an empty token context", async () => {
+    const middleware = zeroAd({
+      clientId,
+      features: [FEATURE.CLEAN_WEB],
+      publicKeys: [{ publicKey }],
+      include: ["/articles", /^\/$/],
+      exclude: (path) => path.endsWith(".css"),
+    });
+
+    const excluded = createRequest("/assets/site.css", { [CLIENT_HEADER.HELLO]: headerValue });
+    const { res } = await run(middleware, excluded);
+    expect(res.getHeader(SERVER_HEADER.WELCOME)).toBeUndefined();
+    expect(excluded.tokenContext?.HIDE_ADVERTISEMENTS).toBe(false);
+
+    const notIncluded = createRequest("/about", { [CLIENT_HEADER.HELLO]: headerValue });
+    expect((await run(middleware, notIncluded)).res.getHeader(SERVER_HEADER.WELCOME)).toBeUndefined();
+
+    const included = createRequest("/articles/42", { [CLIENT_HEADER.HELLO]: headerValue });
+    await run(middleware, included);
+    expect(included.tokenContext?.HIDE_ADVERTISEMENTS).toBe(true);
+
+    const root = createRequest("/", { [CLIENT_HEADER.HELLO]: headerValue });
+    await run(middleware, root);
+    expect(root.tokenContext?.HIDE_ADVERTISEMENTS).toBe(true);
+  });
+
+  test("should normalize paths before applying include and exclude patterns", async () => {
+    const middleware = zeroAd({ clientId, features: [FEATURE.CLEAN_WEB], exclude: "/admin" });
+
+    for (const path of ["/admin/users", "/Admin/users", "//admin/users", "/%61dmin/users", "/x/../admin"]) {
+      const { res } = await run(middleware, createRequest(path));
+      expect(res.getHeader(SERVER_HEADER.WELCOME)).toBeUndefined();
+    }
+
+    const { res } = await run(middleware, createRequest("/administrators"));
+    expect(res.getHeader(SERVER_HEADER.WELCOME)).toBeDefined();
+  });
+
+  test("should match the full `req.originalUrl` when mounted under a path", async () => {
+    // Express strips the mount point from `req.url` and `req.path` inside `app.use("/api", ...)`
+    const mounted = () => Object.assign(createRequest("/health"), { path: "/health", originalUrl: "/api/health" });
+
+    const excluded = await run(zeroAd({ clientId, features: [FEATURE.CLEAN_WEB], exclude: "/api/health" }), mounted());
+    expect(excluded.res.getHeader(SERVER_HEADER.WELCOME)).toBeUndefined();
+
+    const included = await run(zeroAd({ clientId, features: [FEATURE.CLEAN_WEB], exclude: "/health" }), mounted());
+    expect(included.res.getHeader(SERVER_HEADER.WELCOME)).toBeDefined();
+  });
+
+  test("should audit HTML written for subscribers", async () => {
+    const reports: AuditReport[] = [];
+    const audit = createComplianceAuditor({ onFindings: (report) => reports.push(report) });
+    const middleware = zeroAd({ clientId, features: [FEATURE.CLEAN_WEB], publicKeys: [{ publicKey }], audit });
+
+    const { res } = await run(middleware, createRequest("/page", { [CLIENT_HEADER.HELLO]: headerValue }));
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.write("<html><body>");
+    res.end('<script src="https://securepubads.g.doubleclick.net/tag/js/gpt.js"></script></body></html>', "utf8");
+
+    // Audited after the response
+    expect(reports).toHaveLength(0);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(reports).toHaveLength(1);
+    expect(reports[0].url).toBe("/page");
+    expect(reports[0].findings[0].match).toBe("securepubads.g.doubleclick.net");
+
+    const anonymous = await run(middleware, createRequest("/page"));
+    anonymous.res.setHeader("Content-Type", "text/html");
+    anonymous.res.end('<script src="https://securepubads.g.doubleclick.net/tag/js/gpt.js"></script>');
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(reports).toHaveLength(1);
+  });
+
+  test("should not fail responses when reporting findings throws", async () => {
+    const audit = createComplianceAuditor({
+      onFindings: () => {
+        throw new Error("Reporting failed");
+      },
+    });
+    const middleware = zeroAd({ clientId, features: [FEATURE.CLEAN_WEB], publicKeys: [{ publicKey }], audit });
+
+    const { res } = await run(middleware, createRequest("/page", { [CLIENT_HEADER.HELLO]: headerValue }));
+    res.setHeader("Content-Type", "text/html");
+
+    expect(() => res.end('<div data-zeroad="ads">Ad</div>')).not.toThrow();
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+
+  describe("requireFeatures()", () => {
+    const guarded = (tokenContext: Partial<TokenContext>, guard: ReturnType<typeof requireFeatures>) => {
+      const req = Object.assign(createRequest("/premium"), {
+        tokenContext: { ...createEmptyContext(), ...tokenContext },
+      });
+      const res = new ServerResponse(req);
+      let nextCalled = false;
+
+      guard(req, res, () => (nextCalled = true));
+
+      return { res, nextCalled };
+    };
+
+    test("should call next when the actions are enabled", () => {
+      const { nextCalled } = guarded(
+        { ENABLE_SUBSCRIPTION_ACCESS: true },
+        requireFeatures(["DISABLE_CONTENT_PAYWALL", "ENABLE_SUBSCRIPTION_ACCESS"], { mode: "any" })
+      );
+
+      expect(nextCalled).toBe(true);
+    });
+
+    test("should answer with the denial strategy", () => {
+      const json = guarded({}, requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", { deny: { status: 402 } }));
+      expect(json.nextCalled).toBe(false);
+      expect(json.res.statusCode).toBe(402);
+      expect(json.res.getHeader("Content-Type")).toBe("application/json; charset=utf-8");
+
+      const redirect = guarded({}, requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", { deny: { redirect: "/subscribe" } }));
+      expect(redirect.res.statusCode).toBe(302);
+      expect(redirect.res.getHeader("Location")).toBe("/subscribe");
+
+      let missing: string[] = [];
+      guarded({}, requireFeatures("HIDE_ADVERTISEMENTS", { deny: (denial) => (missing = denial.missing) }));
+      expect(missing).toEqual(["HIDE_ADVERTISEMENTS"]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { randomUUID } from "crypto";
+import Fastify from "fastify";
+import { describe, test, expect, beforeEach } from "bun:test";
+import { CLIENT_HEADER, CURRENT_PROTOCOL_VERSION, FEATURE, SERVER_HEADER } from "../constants";
+import { encodeClientHeader } from "../headers/client";
+import { generateKeys } from "../crypto";
+import { requireFeatureAction, requireFeatures, zeroAdPlugin } from "../fastify";
+import { AuditReport, createComplianceAuditor } from "../audit";
+
+describe("Fastify plugin", () => {
+  let publicKey: string;
+  let clientId: string;
+  let headerValue: string;
+
+  beforeEach(async () => {
+    const keys = generateKeys();
+
+    publicKey = keys.publicKey;
+    clientId = randomUUID();
+
+    headerValue = await encodeClientHeader(
+      {
+        version: CURRENT_PROTOCOL_VERSION,
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+        features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS],
+      },
+      keys.privateKey
+    );
+  });
+
+  async function createApp(options: Record<string, unknown> = {}) {
+    const app = Fastify();
+
+    await app.register(zeroAdPlugin, {
+      clientId,
+      features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS],
+      publicKeys: [{ publicKey }],
+      ...options,
+    });
+
+    app.get("/", async (request) => request.tokenContext);
+    app.get("/health", { config: { zeroAd: false } }, async (request) => request.tokenContext);
+    app.get("/premium", { preHandler: requireFeatureAction("ENABLE_SUBSCRIPTION_ACCESS") }, async () => ({
+      data: "premium",
+    }));
+
+    return app;
+  }
+
+  test("should set headers and decorate the request", async () => {
+    const app = await createApp();
+
+    const res = await app.inject({ url: "/", headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+
+    expect(res.headers[SERVER_HEADER.WELCOME.toLowerCase()]).toBe(`${clientId}^1^3`);
+    expect(res.headers.vary).toBe(CLIENT_HEADER.HELLO);
+    expect(res.json().HIDE_ADVERTISEMENTS).toBe(true);
+    expect(res.json().ENABLE_SUBSCRIPTION_ACCESS).toBe(true);
+  });
+
+  test("should honour route-level and path opt-outs", async () => {
+    const app = await createApp({ exclude: "/static" });
+    app.get("/static/app.js", async (request) => request.tokenContext);
+
+    for (const url of ["/health", "/static/app.js"]) {
+      const res = await app.inject({ url, headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+
+      expect(res.headers[SERVER_HEADER.WELCOME.toLowerCase()]).toBeUndefined();
+      expect(res.json().HIDE_ADVERTISEMENTS).toBe(false);
+    }
+  });
+
+  test("requireFeatureAction should reply 403 without the action", async () => {
+    const app = await createApp();
+
+    const allowed = await app.inject({ url: "/premium", headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+    expect(allowed.statusCode).toBe(200);
+    expect(allowed.json()).toEqual({ data: "premium" });
+
+    const denied = await app.inject({ url: "/premium" });
+    expect(denied.statusCode).toBe(403);
+    expect(denied.json().action).toBe("ENABLE_SUBSCRIPTION_ACCESS");
+  });
+
+  test("requireFeatureAction should send a configurable body", async () => {
+    const app = await createApp();
+    app.get(
+      "/custom",
+      { preHandler: requireFeatureAction("DISABLE_CONTENT_PAYWALL", { body: (request) => ({ path: request.url }) }) },
+      async () => "ok"
+    );
+    app.get("/static", { preHandler: requireFeatureAction("HIDE_ADVERTISEMENTS", { body: "Subscribe" }) }, () => "ok");
+
+    expect((await app.inject({ url: "/custom" })).json()).toEqual({ path: "/custom" });
+
+    const res = await app.inject({ url: "/static" });
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toBe("Subscribe");
+  });
+
+  test("requireFeatures should apply the denial strategy", async () => {
+    const app = await createApp({ features: [FEATURE.CLEAN_WEB] });
+    app.get(
+      "/any",
+      { preHandler: requireFeatures(["HIDE_ADVERTISEMENTS", "ENABLE_SUBSCRIPTION_ACCESS"], { mode: "any" }) },
+      () => "ok"
+    );
+    app.get(
+      "/json",
+      { preHandler: requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", { deny: { status: 402 } }) },
+      () => "ok"
+    );
+    app.get(
+      "/redirect",
+      { preHandler: requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", { deny: { redirect: "/subscribe" } }) },
+      () => "ok"
+    );
+    app.get(
+      "/callback",
+      {
+        preHandler: requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", {
+          deny: (denial, _request, reply) => reply.code(401).send(denial),
+        }),
+      },
+      () => "ok"
+    );
+
+    const headers = { [CLIENT_HEADER.HELLO]: headerValue };
+
+    expect((await app.inject({ url: "/any", headers })).body).toBe("ok");
+
+    const json = await app.inject({ url: "/json", headers });
+    expect(json.statusCode).toBe(402);
+    expect(json.json()).toMatchObject({ error: "Payment Required", missing: ["ENABLE_SUBSCRIPTION_ACCESS"] });
+
+    const redirect = await app.inject({ url: "/redirect", headers });
+    expect(redirect.statusCode).toBe(302);
+    expect(redirect.headers.location).toBe("/subscribe");
+
+    const callback = await app.inject({ url: "/callback", headers });
+    expect(callback.statusCode).toBe(401);
+    expect(callback.json().required).toEqual(["ENABLE_SUBSCRIPTION_ACCESS"]);
+  });
+
+  test("should audit HTML payloads for subscribers", async () => {
+    const reports: AuditReport[] = [];
+    const app = await createApp({ audit: createComplianceAuditor({ onFindings: (report) => reports.push(report) }) });
+    app.get("/page", (_request, reply) => reply.type("text/html").send('<div data-zeroad="ads">Ad</div>'));
+
+    await app.inject({ url: "/page" });
+    expect(reports).toEqual([]);
+
+    const res = await app.inject({ url: "/page", headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+    expect(res.body).toBe('<div data-zeroad="ads">Ad</div>');
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(reports.map(({ url, findings }) => [url, findings[0].rule])).toEqual([["/page", "marked-element"]]);
+  });
+
+  test("should not fail responses when reporting findings throws", async () => {
+    const onFindings = () => {
+      throw new Error("Reporting failed");
+    };
+    const app = await createApp({ audit: createComplianceAuditor({ onFindings }) });
+    app.get("/page", (_request, reply) => reply.type("text/html").send('<div data-zeroad="ads">Ad</div>'));
+
+    const res = await app.inject({ url: "/page", headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toBe('<div data-zeroad="ads">Ad</div>');
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+});
@@ -0,0 +1,161 @@
+import { randomUUID } from "crypto";
+import { Hono } from "hono";
+import { describe, test, expect, beforeEach } from "bun:test";
+import { CLIENT_HEADER, CURRENT_PROTOCOL_VERSION, FEATURE, SERVER_HEADER } from "../constants";
+import { createEmptyContext, encodeClientHeader, TokenContext } from "../headers/client";
+import { generateKeys } from "../crypto";
+import { requireFeatures, withZeroAd } from "../fetch";
+import { zeroAd } from "../hono";
+
+describe("Fetch and Hono middleware", () => {
+  let publicKey: string;
+  let clientId: string;
+  let headerValue: string;
+  let siteOptions: { clientId: string; features: FEATURE[]; publicKeys: { publicKey: string }[] };
+
+  beforeEach(async () => {
+    const keys = generateKeys();
+
+    publicKey = keys.publicKey;
+    clientId = randomUUID();
+    siteOptions = { clientId, features: [FEATURE.CLEAN_WEB], publicKeys: [{ publicKey }] };
+
+    headerValue = await encodeClientHeader(
+      {
+        version: CURRENT_PROTOCOL_VERSION,
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+        features: [FEATURE.CLEAN_WEB],
+      },
+      keys.privateKey
+    );
+  });
+
+  describe("withZeroAd()", () => {
+    test("should pass the token context and set response headers", async () => {
+      const handler = withZeroAd(
+        (_request, tokenContext, env: { name: string }) =>
+          Response.json({ ...tokenContext, env: env.name }, { headers: { Vary: "Accept-Encoding" } }),
+        siteOptions
+      );
+
+      const res = await handler(
+        new Request("https://example.com/", { headers: { [CLIENT_HEADER.HELLO]: headerValue } }),
+        { name: "production" }
+      );
+      const body = await res.json();
+
+      expect(body.HIDE_ADVERTISEMENTS).toBe(true);
+      expect(body.env).toBe("production");
+      expect(res.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+      expect(res.headers.get("Vary")).toBe(`Accept-Encoding, ${CLIENT_HEADER.HELLO}`);
+    });
+
+    test("should copy responses with immutable headers", async () => {
+      const handler = withZeroAd(() => Response.redirect("https://example.com/login", 302), siteOptions);
+
+      const res = await handler(new Request("https://example.com/"));
+
+      expect(res.status).toBe(302);
+      expect(res.headers.get("Location")).toBe("https://example.com/login");
+      expect(res.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+    });
+
+    test("should skip excluded paths", async () => {
+      let received: TokenContext | undefined;
+      const handler = withZeroAd(
+        (_request, tokenContext) => {
+          received = tokenContext;
+          return new Response("ok");
+        },
+        { ...siteOptions, exclude: "/static" }
+      );
+
+      const res = await handler(
+        new Request("https://example.com/static/app.js", { headers: { [CLIENT_HEADER.HELLO]: headerValue } })
+      );
+
+      expect(res.headers.get(SERVER_HEADER.WELCOME)).toBeNull();
+      expect(received?.HIDE_ADVERTISEMENTS).toBe(false);
+    });
+
+    test("should apply the features of the matched site route", async () => {
+      const handler = withZeroAd((_request, tokenContext) => Response.json(tokenContext), {
+        ...siteOptions,
+        routes: [{ path: "/premium/*", features: [FEATURE.ONE_PASS] }],
+      });
+      const request = (path: string) =>
+        new Request(`https://example.com${path}`, { headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+
+      const premium = await handler(request("/premium/report"));
+      expect((await premium.json()).HIDE_ADVERTISEMENTS).toBe(false);
+      expect(premium.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^2`);
+
+      const home = await handler(request("/"));
+      expect((await home.json()).HIDE_ADVERTISEMENTS).toBe(true);
+      expect(home.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+    });
+  });
+
+  describe("requireFeatures()", () => {
+    test("should guard the wrapped handler", async () => {
+      const handler = withZeroAd(
+        requireFeatures("HIDE_ADVERTISEMENTS", () => new Response("ok"), { deny: { redirect: "/subscribe" } }),
+        siteOptions
+      );
+
+      const allowed = await handler(
+        new Request("https://example.com/", { headers: { [CLIENT_HEADER.HELLO]: headerValue } })
+      );
+      expect(await allowed.text()).toBe("ok");
+
+      const denied = await handler(new Request("https://example.com/"));
+      expect(denied.status).toBe(302);
+      expect(denied.headers.get("Location")).toBe("/subscribe");
+      expect(denied.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+    });
+
+    test("should support JSON and callback denials", async () => {
+      const json = requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", () => new Response("ok"));
+      const res = await json(new Request("https://example.com/"), createEmptyContext());
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).missing).toEqual(["ENABLE_SUBSCRIPTION_ACCESS"]);
+
+      const callback = requireFeatures("ENABLE_SUBSCRIPTION_ACCESS", () => new Response("ok"), {
+        deny: (denial) => new Response(denial.missing.join(), { status: 401 }),
+      });
+      const denied = await callback(new Request("https://example.com/"), createEmptyContext());
+
+      expect(denied.status).toBe(401);
+      expect(await denied.text()).toBe("ENABLE_SUBSCRIPTION_ACCESS");
+    });
+  });
+
+  describe("Hono zeroAd()", () => {
+    function createApp(options = {}) {
+      const app = new Hono();
+
+      app.use("*", zeroAd({ ...siteOptions, ...options }));
+      app.get("*", (c) => c.json(c.get("tokenContext")));
+
+      return app;
+    }
+
+    test("should set the token context variable and response headers", async () => {
+      const res = await createApp().request("/", { headers: { [CLIENT_HEADER.HELLO]: headerValue } });
+
+      expect((await res.json()).HIDE_ADVERTISEMENTS).toBe(true);
+      expect(res.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+      expect(res.headers.get("Vary")).toBe(CLIENT_HEADER.HELLO);
+    });
+
+    test("should skip excluded paths", async () => {
+      const res = await createApp({ exclude: /\.js$/ }).request("/app.js", {
+        headers: { [CLIENT_HEADER.HELLO]: headerValue },
+      });
+
+      expect((await res.json()).HIDE_ADVERTISEMENTS).toBe(false);
+      expect(res.headers.get(SERVER_HEADER.WELCOME)).toBeNull();
+    });
+  });
+});
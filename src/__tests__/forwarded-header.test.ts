@@ -0,0 +1,100 @@
+import { randomUUID } from "crypto";
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  decodeForwardedContext,
+  encodeForwardedContext,
+  FORWARDED_CONTEXT_ALGORITHM,
+  FORWARDED_CONTEXT_TTL,
+  parseForwardedContext,
+} from "../headers/forwarded";
+import { createEmptyContext, createFeatureContext } from "../context";
+import { FEATURE } from "../constants";
+import { generateKeys } from "../crypto";
+import { fromBase64, toBase64 } from "../helpers";
+
+describe("Forwarded Context Headers", () => {
+  const secret = "proxy-origin-secret";
+  const tokenContext = createFeatureContext([FEATURE.ONE_PASS]);
+  let clientId: string;
+
+  beforeEach(() => {
+    clientId = randomUUID();
+  });
+
+  describe("encodeForwardedContext()", () => {
+    test("should require a clientId", async () => {
+      await expect(encodeForwardedContext({ tokenContext, clientId: "" }, { secret })).rejects.toThrow(
+        "The provided `clientId` value cannot be an empty string"
+      );
+    });
+  });
+
+  describe("decodeForwardedContext()", () => {
+    test("should round-trip an HMAC signed context", async () => {
+      const expiresAt = new Date(Date.now() + 10_000);
+      const headerValue = await encodeForwardedContext({ tokenContext, clientId, expiresAt }, { secret });
+
+      expect(await decodeForwardedContext(headerValue, { secret })).toEqual({
+        version: 1,
+        algorithm: FORWARDED_CONTEXT_ALGORITHM.HMAC_SHA256,
+        expiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000),
+        clientId,
+        tokenContext,
+      });
+    });
+
+    test("should round-trip an Ed25519 signed context", async () => {
+      const { privateKey, publicKey } = generateKeys();
+      const headerValue = await encodeForwardedContext({ tokenContext, clientId }, { privateKey });
+      const decoded = await decodeForwardedContext(headerValue, { publicKey });
+
+      expect(decoded?.algorithm).toBe(FORWARDED_CONTEXT_ALGORITHM.ED25519);
+      expect(decoded?.tokenContext).toEqual(tokenContext);
+      expect(decoded?.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + FORWARDED_CONTEXT_TTL);
+    });
+
+    test("should reject tampered payloads and mismatched keys", async () => {
+      const { privateKey, publicKey } = generateKeys();
+      const headerValue = await encodeForwardedContext({ tokenContext, clientId }, { secret });
+
+      const [payload, signature] = headerValue.split(".");
+      const bytes = fromBase64(payload);
+      bytes[10] = 0x3f; // Enable every action
+      const tampered = `${toBase64(bytes)}.${signature}`;
+
+      expect(await decodeForwardedContext(tampered, { secret })).toBeUndefined();
+      expect(await decodeForwardedContext(headerValue, { secret: "other-secret" })).toBeUndefined();
+      expect(await decodeForwardedContext(headerValue, { publicKey })).toBeUndefined();
+
+      const signed = await encodeForwardedContext({ tokenContext, clientId }, { privateKey });
+      expect(await decodeForwardedContext(signed, { secret })).toBeUndefined();
+    });
+
+    test("should return undefined for malformed values", async () => {
+      expect(await decodeForwardedContext(undefined, { secret })).toBeUndefined();
+      expect(await decodeForwardedContext("not-a-header", { secret })).toBeUndefined();
+      expect(await decodeForwardedContext("AQE=.AQE=", { secret })).toBeUndefined();
+    });
+  });
+
+  describe("parseForwardedContext()", () => {
+    test("should return the forwarded context", async () => {
+      const headerValue = await encodeForwardedContext({ tokenContext, clientId }, { secret });
+
+      expect(await parseForwardedContext(headerValue, { clientId, key: { secret } })).toEqual(tokenContext);
+    });
+
+    test("should disable all actions for expired values or another site", async () => {
+      const expired = await encodeForwardedContext(
+        { tokenContext, clientId, expiresAt: new Date(Date.now() - 2000) },
+        { secret }
+      );
+      const headerValue = await encodeForwardedContext({ tokenContext, clientId }, { secret });
+
+      expect(await parseForwardedContext(expired, { clientId, key: { secret } })).toEqual(createEmptyContext());
+      expect(await parseForwardedContext(headerValue, { clientId: randomUUID(), key: { secret } })).toEqual(
+        createEmptyContext()
+      );
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect } from "bun:test";
+import { checkFeatureActions, createDenialResponse } from "../guard";
+import { createEmptyContext, TokenContext } from "../headers/client";
+
+const context = (actions: Partial<TokenContext>): TokenContext => ({ ...createEmptyContext(), ...actions });
+
+describe("feature guards", () => {
+  describe("checkFeatureActions()", () => {
+    test("should require all actions by default", () => {
+      const tokenContext = context({ HIDE_ADVERTISEMENTS: true });
+
+      expect(checkFeatureActions(tokenContext, "HIDE_ADVERTISEMENTS")).toBeUndefined();
+      expect(checkFeatureActions(tokenContext, ["HIDE_ADVERTISEMENTS", "DISABLE_CONTENT_PAYWALL"])).toEqual({
+        mode: "all",
+        required: ["HIDE_ADVERTISEMENTS", "DISABLE_CONTENT_PAYWALL"],
+        missing: ["DISABLE_CONTENT_PAYWALL"],
+      });
+    });
+
+    test("should allow any of the actions", () => {
+      const actions = ["DISABLE_CONTENT_PAYWALL", "ENABLE_SUBSCRIPTION_ACCESS"] as const;
+
+      expect(checkFeatureActions(context({ ENABLE_SUBSCRIPTION_ACCESS: true }), actions, "any")).toBeUndefined();
+      expect(checkFeatureActions(context({}), actions, "any")).toEqual({
+        mode: "any",
+        required: [...actions],
+        missing: [...actions],
+      });
+    });
+
+    test("should deny when there is no token context", () => {
+      expect(checkFeatureActions(undefined, "HIDE_ADVERTISEMENTS")?.missing).toEqual(["HIDE_ADVERTISEMENTS"]);
+    });
+  });
+
+  describe("createDenialResponse()", () => {
+    const denial = checkFeatureActions(undefined, "ENABLE_SUBSCRIPTION_ACCESS")!;
+
+    test("should default to a 403 JSON body listing missing actions", () => {
+      const res = createDenialResponse(denial);
+
+      expect(res.status).toBe(403);
+      expect(res.headers["Content-Type"]).toBe("application/json; charset=utf-8");
+      expect(JSON.parse(res.body!)).toMatchObject({ error: "Forbidden", missing: ["ENABLE_SUBSCRIPTION_ACCESS"] });
+    });
+
+    test("should support 402 and custom bodies", () => {
+      expect(JSON.parse(createDenialResponse(denial, { status: 402 }).body!).error).toBe("Payment Required");
+      expect(createDenialResponse(denial, { body: { upgrade: true } }).body).toBe('{"upgrade":true}');
+      expect(createDenialResponse(denial, { body: (d) => ({ need: d.missing }) }).body).toBe(
+        '{"need":["ENABLE_SUBSCRIPTION_ACCESS"]}'
+      );
+    });
+
+    test("should redirect to a subscribe URL", () => {
+      expect(createDenialResponse(denial, { redirect: "/subscribe" })).toEqual({
+        status: 302,
+        headers: { Location: "/subscribe" },
+      });
+
+      expect(
+        createDenialResponse(denial, { redirect: (d) => `/subscribe?needs=${d.missing.join(",")}`, status: 303 })
+      ).toEqual({ status: 303, headers: { Location: "/subscribe?needs=ENABLE_SUBSCRIPTION_ACCESS" } });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Readable } from "node:stream";
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import { describe, test, expect } from "bun:test";
+import { createHtmlRewriter, createHtmlRewriterStream, rewriteHtml, rewriteHtmlResponse } from "../html";
+import { createHtmlRewriterTransform } from "../html/node";
+import { createEmptyContext, TokenContext } from "../headers/client";
+
+const context = (actions: Partial<TokenContext>): TokenContext => ({ ...createEmptyContext(), ...actions });
+const cleanWeb = context({
+  HIDE_ADVERTISEMENTS: true,
+  HIDE_COOKIE_CONSENT_SCREEN: true,
+  HIDE_MARKETING_DIALOGS: true,
+  DISABLE_NON_FUNCTIONAL_TRACKING: true,
+});
+
+const PAGE = [
+  "<!DOCTYPE html>",
+  "<html><head>",
+  '<script data-zeroad="tracking" src="https://tracker.example/t.js"></script>',
+  "<script>if (a < b) document.write('<div data-zeroad=\"ads\">')</script>",
+  "</head><body>",
+  '<div class="banner" data-zeroad="ads"><div><div>Nested ad</div></div><img src="ad.png"></div>',
+  '<img data-zeroad=tracking src="pixel.gif" />',
+  "<!-- <div data-zeroad='ads'>commented out</div> -->",
+  "<article>Content</article>",
+  "<section data-zeroad='paywall'>Subscribe to read more</section>",
+  '<dialog data-zeroad="marketing cookie-consent">Newsletter</dialog>',
+  "</body></html>",
+].join("");
+
+const REWRITTEN = [
+  "<!DOCTYPE html>",
+  "<html><head>",
+  "<script>if (a < b) document.write('<div data-zeroad=\"ads\">')</script>",
+  "</head><body>",
+  "<!-- <div data-zeroad='ads'>commented out</div> -->",
+  "<article>Content</article>",
+  "<section data-zeroad='paywall'>Subscribe to read more</section>",
+  "</body></html>",
+].join("");
+
+describe("HTML rewriter", () => {
+  test("should remove marked elements for enabled actions", () => {
+    expect(rewriteHtml(PAGE, cleanWeb)).toBe(REWRITTEN);
+  });
+
+  test("should keep everything for an empty token context", () => {
+    expect(rewriteHtml(PAGE, createEmptyContext())).toBe(PAGE);
+  });
+
+  test("should remove paywall elements for ONE_PASS", () => {
+    const html = rewriteHtml(PAGE, context({ DISABLE_CONTENT_PAYWALL: true }));
+
+    expect(html).not.toContain("Subscribe to read more");
+    expect(html).toContain("Nested ad");
+  });
+
+  test("should produce the same output for any chunk split", () => {
+    for (const size of [1, 2, 3, 7, 16]) {
+      const rewriter = createHtmlRewriter(cleanWeb);
+      let output = "";
+
+      for (let i = 0; i < PAGE.length; i += size) output += rewriter.write(PAGE.slice(i, i + size));
+
+      expect(output + rewriter.end()).toBe(REWRITTEN);
+    }
+  });
+
+  test("should flush unterminated markup at the end", () => {
+    expect(rewriteHtml("text <", cleanWeb)).toBe("text <");
+    expect(rewriteHtml("<p>a <b", cleanWeb)).toBe("<p>a <b");
+  });
+
+  test("should end removed elements whose end tag is omitted", () => {
+    const cases: [string, string][] = [
+      ['<ul><li data-zeroad="ads">ad<li>item</ul><main>content</main>', "<ul><li>item</ul><main>content</main>"],
+      ['<p data-zeroad="ads">ad<p>para</p><footer>f</footer>', "<p>para</p><footer>f</footer>"],
+      ['<div><p data-zeroad="ads">ad</div><p>after</p>', "<div></div><p>after</p>"],
+      ['<p data-zeroad="ads">ad<div>block</div>', "<div>block</div>"],
+      ['<li data-zeroad="ads"><p>ad<li>item', "<li>item"],
+      ['<dl><dt data-zeroad="ads">ad<dd>ad<dt>term</dl>', "<dl><dd>ad<dt>term</dl>"],
+      ['<select><option data-zeroad="ads">ad<option>b</select>', "<select><option>b</select>"],
+      [
+        '<table><tr data-zeroad="ads"><td>ad<tr><td data-zeroad="ads">ad<td>cell</table><p>after',
+        "<table><tr><td>cell</table><p>after",
+      ],
+      // Nested lists keep their own items
+      ['<li data-zeroad="ads"><ul><li>a<li>b</ul>ad<li>item', "<li>item"],
+    ];
+
+    for (const [html, expected] of cases) {
+      expect(rewriteHtml(html, cleanWeb)).toBe(expected);
+    }
+  });
+
+  test("should only read markers from `data-zeroad` attributes", () => {
+    const cases: [string, string][] = [
+      ['<div title=" data-zeroad=ads">keep</div>', '<div title=" data-zeroad=ads">keep</div>'],
+      ["<div title='a > b' data-zeroad=ads>ad</div>after", "after"],
+      ['<div data-zeroad="" data-zeroad="ads">keep</div>', '<div data-zeroad="" data-zeroad="ads">keep</div>'],
+      ['<div DATA-ZEROAD = "ads">ad</div>after', "after"],
+    ];
+
+    for (const [html, expected] of cases) {
+      expect(rewriteHtml(html, cleanWeb)).toBe(expected);
+    }
+  });
+
+  test("should ignore `/>` on HTML elements that aren't void", () => {
+    const cases: [string, string][] = [
+      ['<div data-zeroad="ads"/>ad</div>after', "after"],
+      ['<br data-zeroad="ads"/>after', "after"],
+      // Foreign elements do end with `/>`
+      ['<svg><g data-zeroad="ads"/><text>keep</text></svg>', "<svg><text>keep</text></svg>"],
+      ['<svg><g data-zeroad="ads"><path/>ad</g><style>a{}</style></svg>', "<svg><style>a{}</style></svg>"],
+    ];
+
+    for (const [html, expected] of cases) {
+      expect(rewriteHtml(html, cleanWeb)).toBe(expected);
+    }
+  });
+
+  test("should rewrite Web streams and HTML responses", async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const bytes = encoder.encode(PAGE);
+        for (let i = 0; i < bytes.length; i += 5) controller.enqueue(bytes.slice(i, i + 5));
+        controller.close();
+      },
+    });
+
+    expect(await new Response(body.pipeThrough(createHtmlRewriterStream(cleanWeb))).text()).toBe(REWRITTEN);
+
+    const response = rewriteHtmlResponse(
+      new Response(PAGE, { headers: { "Content-Type": "text/html; charset=utf-8", "Content-Length": "1" } }),
+      cleanWeb
+    );
+    expect(response.headers.get("Content-Length")).toBeNull();
+    expect(await response.text()).toBe(REWRITTEN);
+
+    const json = new Response("{}", { headers: { "Content-Type": "application/json" } });
+    expect(rewriteHtmlResponse(json, cleanWeb)).toBe(json);
+  });
+
+  test("should decode gzip HTML responses and leave other encodings untouched", async () => {
+    const gzipped = rewriteHtmlResponse(
+      new Response(gzipSync(PAGE), { headers: { "Content-Type": "text/html", "Content-Encoding": "gzip" } }),
+      cleanWeb
+    );
+    expect(gzipped.headers.get("Content-Encoding")).toBeNull();
+    expect(await gzipped.text()).toBe(REWRITTEN);
+
+    const brotli = new Response(brotliCompressSync(PAGE), {
+      headers: { "Content-Type": "text/html", "Content-Encoding": "br" },
+    });
+    expect(rewriteHtmlResponse(brotli, cleanWeb)).toBe(brotli);
+  });
+
+  test("should rewrite Node streams without splitting multi-byte characters", async () => {
+    const html = `<p>Zero Ad 🚀</p>${PAGE}`;
+    const bytes = Buffer.from(html);
+    const chunks = Array.from({ length: Math.ceil(bytes.length / 3) }, (_, i) => bytes.subarray(i * 3, i * 3 + 3));
+
+    let output = "";
+    for await (const chunk of Readable.from(chunks).pipe(createHtmlRewriterTransform(cleanWeb))) output += chunk;
+
+    expect(output).toBe(`<p>Zero Ad 🚀</p>${REWRITTEN}`);
+  });
+});
@@ -1,20 +1,30 @@
 import { describe, expect, test } from "bun:test";
-import { parseClientToken, encodeClientHeader, decodeClientHeader } from "../headers/client";
+import { parseClientToken, parseClientTokenDetailed, encodeClientHeader, decodeClientHeader } from "../headers/client";
 import { encodeServerHeader, decodeServerHeader } from "../headers/server";
 import { setLogLevel } from "../logger";
+import { setCryptoBackend } from "../backend";
 import * as module from "../index";
 import { Site } from "../site";
+import { checkFeatureActions } from "../guard";
+import { rewriteHtml } from "../html";
+import { createHtmlRewriterTransform } from "../html/node";
 
 describe("module", () => {
   test("exports expected module elements", () => {
     expect(module.Site).toBe(Site);
     expect(module.setLogLevel).toBe(setLogLevel);
+    expect(module.setCryptoBackend).toBe(setCryptoBackend);
 
     expect(module.encodeClientHeader).toBe(encodeClientHeader);
     expect(module.decodeClientHeader).toBe(decodeClientHeader);
     expect(module.parseClientToken).toBe(parseClientToken);
+    expect(module.parseClientTokenDetailed).toBe(parseClientTokenDetailed);
 
     expect(module.encodeServerHeader).toBe(encodeServerHeader);
     expect(module.decodeServerHeader).toBe(decodeServerHeader);
+
+    expect(module.checkFeatureActions).toBe(checkFeatureActions);
+    expect(module.rewriteHtml).toBe(rewriteHtml);
+    expect(module.createHtmlRewriterTransform).toBe(createHtmlRewriterTransform);
   });
 });
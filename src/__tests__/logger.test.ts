@@ -0,0 +1,149 @@
+import { randomUUID } from "crypto";
+import { describe, test, expect, afterEach, spyOn, setSystemTime } from "bun:test";
+import {
+  createJsonLinesSink,
+  createLogger,
+  createPinoSink,
+  createWinstonSink,
+  log,
+  LogRecord,
+  setLogLevel,
+  setLogSink,
+  setLogTransport,
+} from "../logger";
+import { FEATURE } from "../constants";
+import { Site } from "../site";
+
+describe("Logger", () => {
+  afterEach(() => {
+    setLogLevel("error");
+    setLogSink(createJsonLinesSink());
+    setSystemTime();
+  });
+
+  test("should write JSON lines to the console method matching the level", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => undefined);
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    setLogLevel("warn");
+
+    log("warn", "CLIENT_HEADER_INVALID", { reason: "Invalid data length" });
+    log("info", "CACHE_CONFIGURED", { enabled: true, maxSize: 100, ttl: 5000 });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(warn.mock.calls[0][0])).toEqual({
+      time: "2026-01-01T00:00:00.000Z",
+      level: "warn",
+      code: "CLIENT_HEADER_INVALID",
+      message: "Could not decode client header value",
+      fields: { reason: "Invalid data length" },
+    });
+
+    warn.mockRestore();
+  });
+
+  test("should rate limit records per code and report suppressed ones", () => {
+    const records: LogRecord[] = [];
+    const logger = createLogger({
+      level: "warn",
+      sink: (record) => records.push(record),
+      rateLimit: { limit: 2, interval: 1000 },
+    });
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+
+    for (let i = 0; i < 5; i++) logger.log("warn", "CLIENT_HEADER_INVALID", { reason: `#${i}` });
+    logger.log("warn", "CACHE_READ_FAILED", {});
+
+    setSystemTime(new Date("2026-01-01T00:00:01Z"));
+    logger.log("warn", "CLIENT_HEADER_INVALID", { reason: "#5" });
+
+    expect(records.map(({ code, fields, suppressed }) => [code, fields, suppressed])).toEqual([
+      ["CLIENT_HEADER_INVALID", { reason: "#0" }, undefined],
+      ["CLIENT_HEADER_INVALID", { reason: "#1" }, undefined],
+      ["CACHE_READ_FAILED", {}, undefined],
+      ["CLIENT_HEADER_INVALID", { reason: "#5" }, 3],
+    ]);
+  });
+
+  test("should never throw from a failing sink", () => {
+    const logger = createLogger({
+      level: "debug",
+      sink: () => {
+        throw new Error("Disk full");
+      },
+    });
+
+    expect(() => logger.log("error", "AUDIT_FAILED", { reason: "Timeout" })).not.toThrow();
+  });
+
+  test("should adapt pino and winston style loggers", () => {
+    const pinoCalls: unknown[][] = [];
+    const winstonCalls: unknown[] = [];
+    const pino = {
+      error: (...args: unknown[]) => pinoCalls.push(args),
+      warn: (...args: unknown[]) => pinoCalls.push(args),
+      info: (...args: unknown[]) => pinoCalls.push(args),
+      debug: (...args: unknown[]) => pinoCalls.push(args),
+    };
+
+    const scope = { clientId: "site-1" };
+    createLogger({ level: "warn", sink: createPinoSink(pino), scope }).log("warn", "REPLAY_RECORD_FAILED", {
+      reason: "Connection lost",
+    });
+    createLogger({ level: "warn", sink: createWinstonSink({ log: (entry) => winstonCalls.push(entry) }), scope }).log(
+      "error",
+      "CACHE_WRITE_FAILED",
+      { reason: "Connection lost" }
+    );
+
+    expect(pinoCalls).toEqual([
+      [{ code: "REPLAY_RECORD_FAILED", clientId: "site-1", reason: "Connection lost" }, "Could not record token usage"],
+    ]);
+    expect(winstonCalls).toEqual([
+      {
+        level: "error",
+        message: "Could not write to token cache store",
+        code: "CACHE_WRITE_FAILED",
+        clientId: "site-1",
+        reason: "Connection lost",
+      },
+    ]);
+  });
+
+  test("should keep supporting legacy transports", () => {
+    const calls: unknown[][] = [];
+    setLogLevel("warn");
+    setLogTransport((...args) => calls.push(args));
+
+    log("warn", "SERVER_HEADER_INVALID", { reason: "Invalid header value format" });
+
+    expect(calls).toEqual([
+      [
+        "warn",
+        "Could not decode server header value",
+        { code: "SERVER_HEADER_INVALID", reason: "Invalid header value format" },
+      ],
+    ]);
+  });
+
+  test("should scope records to the Site that logged them", async () => {
+    const records: LogRecord[] = [];
+    const clientId = randomUUID();
+    const site = Site({
+      clientId,
+      features: [FEATURE.CLEAN_WEB],
+      logger: { level: "warn", sink: (record) => records.push(record) },
+    });
+    const other = Site({ clientId: randomUUID(), features: [FEATURE.CLEAN_WEB] });
+
+    await site.parseClientToken("forged");
+    await other.parseClientToken("forged");
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      level: "warn",
+      code: "CLIENT_HEADER_INVALID",
+      scope: { clientId },
+      fields: { reason: "Invalid header format: missing separator" },
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { randomUUID } from "crypto";
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  createMetricsCollector,
+  createOpenTelemetryRecorder,
+  formatPrometheus,
+  MetricsEvent,
+  OpenTelemetryMeter,
+} from "../metrics";
+import { CURRENT_PROTOCOL_VERSION, FEATURE } from "../constants";
+import { encodeClientHeader } from "../headers/client";
+import { generateKeys } from "../crypto";
+import { Site } from "../site";
+
+describe("Metrics", () => {
+  let privateKey: string;
+  let publicKey: string;
+  let clientId: string;
+
+  beforeEach(() => {
+    ({ privateKey, publicKey } = generateKeys());
+    clientId = randomUUID();
+  });
+
+  const encode = (expiresAt: Date) =>
+    encodeClientHeader({ version: CURRENT_PROTOCOL_VERSION, expiresAt, features: [FEATURE.CLEAN_WEB] }, privateKey);
+
+  describe("Site stats", () => {
+    test("should count parses, rejection reasons and cache behaviour", async () => {
+      const events: MetricsEvent[] = [];
+      const site = Site({
+        clientId,
+        features: [FEATURE.CLEAN_WEB],
+        publicKeys: [{ publicKey }],
+        metrics: (event) => events.push(event),
+      });
+
+      const headerValue = await encode(new Date(Date.now() + 3600 * 1000));
+
+      await site.parseClientToken(headerValue);
+      await site.parseClientToken(headerValue);
+      await site.parseClientTokenDetailed(await encode(new Date(Date.now() - 1000)));
+      await site.parseClientToken("garbage");
+      await site.parseClientToken(undefined);
+
+      const stats = site.getStats();
+
+      expect(stats.parses).toBe(5);
+      expect(stats.statuses).toMatchObject({ valid: 2, expired: 1, malformed: 1, missing: 1 });
+      expect(stats.cache).toEqual({ hits: 1, misses: 3, evictions: { capacity: 0, expired: 0 } });
+      expect(stats.verification.count).toBe(3);
+      expect(events.filter((event) => event.type === "parse")).toHaveLength(5);
+      expect(events).toContainEqual({ type: "parse", status: "valid", cached: true });
+    });
+
+    test("should count cache evictions per site", async () => {
+      const site = Site({ clientId, features: [FEATURE.CLEAN_WEB], cacheConfig: { maxSize: 1 } });
+      const other = Site({ clientId, features: [FEATURE.CLEAN_WEB] });
+
+      await site.parseClientToken(await encode(new Date(Date.now() + 3600 * 1000)));
+      await site.parseClientToken(await encode(new Date(Date.now() + 3600 * 1000)));
+
+      expect(site.getStats().cache.evictions.capacity).toBe(1);
+      expect(other.getStats().parses).toBe(0);
+    });
+  });
+
+  describe("createMetricsCollector()", () => {
+    test("should build a cumulative latency histogram", () => {
+      const collector = createMetricsCollector({ buckets: [10, 1] });
+
+      collector.record({ type: "verification", status: "valid", duration: 0.5 });
+      collector.record({ type: "verification", status: "valid", duration: 5 });
+      collector.record({ type: "verification", status: "bad_signature", duration: 50 });
+
+      expect(collector.snapshot().verification).toEqual({
+        buckets: [
+          { le: 1, count: 1 },
+          { le: 10, count: 2 },
+        ],
+        sum: 55.5,
+        count: 3,
+      });
+
+      collector.reset();
+      expect(collector.snapshot().verification.count).toBe(0);
+    });
+  });
+
+  describe("formatPrometheus()", () => {
+    test("should render the text exposition format", () => {
+      const collector = createMetricsCollector({ buckets: [1] });
+      collector.record({ type: "parse", status: "valid", cached: false });
+      collector.record({ type: "cache_hit" });
+      collector.record({ type: "verification", status: "valid", duration: 0.5 });
+
+      const text = formatPrometheus([{ stats: collector.snapshot(), labels: { site: 'blog "main"' } }]);
+
+      expect(text).toContain("# TYPE zeroad_token_parses_total counter\n");
+      expect(text).toContain('zeroad_token_parses_total{site="blog \\"main\\"",status="valid"} 1\n');
+      expect(text).toContain('zeroad_cache_hits_total{site="blog \\"main\\""} 1\n');
+      expect(text).toContain('zeroad_token_verification_seconds_bucket{site="blog \\"main\\"",le="0.001"} 1\n');
+      expect(text).toContain('zeroad_token_verification_seconds_bucket{site="blog \\"main\\"",le="+Inf"} 1\n');
+      expect(text).toContain('zeroad_token_verification_seconds_sum{site="blog \\"main\\""} 0.0005\n');
+    });
+
+    test("should accept a single snapshot and a prefix", () => {
+      const text = formatPrometheus(createMetricsCollector().snapshot(), { prefix: "app" });
+
+      expect(text).toContain("app_cache_misses_total 0\n");
+      expect(text).toContain('app_cache_evictions_total{reason="capacity"} 0\n');
+    });
+  });
+
+  describe("createOpenTelemetryRecorder()", () => {
+    test("should forward events to counters and histograms", () => {
+      const measurements: [string, number, unknown][] = [];
+      const meter: OpenTelemetryMeter = {
+        createCounter: (name) => ({ add: (value, attributes) => void measurements.push([name, value, attributes]) }),
+        createHistogram: (name) => ({
+          record: (value, attributes) => void measurements.push([name, value, attributes]),
+        }),
+      };
+
+      const record = createOpenTelemetryRecorder(meter, { attributes: { site: "blog" } });
+      record({ type: "parse", status: "expired", cached: false });
+      record({ type: "verification", status: "valid", duration: 2 });
+      record({ type: "cache_eviction", reason: "capacity" });
+
+      expect(measurements).toEqual([
+        ["zeroad.token.parses", 1, { site: "blog", status: "expired", cached: false }],
+        ["zeroad.token.verification.duration", 2, { site: "blog", status: "valid" }],
+        ["zeroad.cache.evictions", 1, { site: "blog", reason: "capacity" }],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { describe, test, expect, beforeEach } from "bun:test";
+import { CLIENT_HEADER, CURRENT_PROTOCOL_VERSION, FEATURE, SERVER_HEADER } from "../constants";
+import { createEmptyContext, createFeatureContext, encodeClientHeader } from "../headers/client";
+import { encodeForwardedContext } from "../headers/forwarded";
+import { generateKeys } from "../crypto";
+import { createZeroAdMiddleware, FORWARDED_CONTEXT_HEADER, getTokenContext } from "../next";
+import { createJsonLinesSink, LogRecord, setLogSink } from "../logger";
+
+// The request headers Next.js hands to the route after the middleware ran
+function forwardedHeaders(response: Response) {
+  const headers = new Headers();
+  for (const name of response.headers.get("x-middleware-override-headers")?.split(",").filter(Boolean) ?? []) {
+    headers.set(name, response.headers.get(`x-middleware-request-${name}`) ?? "");
+  }
+
+  return headers;
+}
+
+function headerList(headers: Headers) {
+  const list: string[] = [];
+  headers.forEach((value, name) => list.push(`${name}: ${value}`));
+
+  return list;
+}
+
+describe("Next.js middleware", () => {
+  const secret = "test-secret";
+  let clientId: string;
+  let headerValue: string;
+  let siteOptions: { clientId: string; features: FEATURE[]; publicKeys: { publicKey: string }[]; secret: string };
+
+  beforeEach(async () => {
+    const keys = generateKeys();
+
+    clientId = randomUUID();
+    siteOptions = { clientId, features: [FEATURE.CLEAN_WEB], publicKeys: [{ publicKey: keys.publicKey }], secret };
+
+    headerValue = await encodeClientHeader(
+      {
+        version: CURRENT_PROTOCOL_VERSION,
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+        features: [FEATURE.CLEAN_WEB],
+      },
+      keys.privateKey
+    );
+  });
+
+  test("should respond like NextResponse.next() with overridden request headers", async () => {
+    const middleware = createZeroAdMiddleware({ ...siteOptions, exclude: "/api" });
+    const headers = new Headers({ accept: "text/html" });
+
+    const res = await middleware(new NextRequest("https://example.com/api/health", { headers }));
+    const expected = NextResponse.next({ request: { headers } });
+
+    expect(headerList(res.headers)).toEqual(headerList(expected.headers));
+    expect(res.status).toBe(expected.status);
+  });
+
+  test("should send the welcome header and forward a signed context", async () => {
+    const middleware = createZeroAdMiddleware(siteOptions);
+
+    const res = await middleware(
+      new NextRequest("https://example.com/", { headers: { [CLIENT_HEADER.HELLO]: headerValue } })
+    );
+    const tokenContext = await getTokenContext(forwardedHeaders(res), { secret });
+
+    expect(res.headers.get(SERVER_HEADER.WELCOME)).toBe(`${clientId}^1^1`);
+    expect(res.headers.get("Vary")).toBe(CLIENT_HEADER.HELLO);
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+    expect(tokenContext.DISABLE_CONTENT_PAYWALL).toBe(false);
+  });
+
+  test("should drop spoofed context headers", async () => {
+    const middleware = createZeroAdMiddleware({ ...siteOptions, exclude: "/api" });
+
+    const forged = await encodeForwardedContext(
+      { tokenContext: createFeatureContext([FEATURE.CLEAN_WEB]), clientId },
+      { secret: "guessed-secret" }
+    );
+
+    const res = await middleware(
+      new NextRequest("https://example.com/api", { headers: { [FORWARDED_CONTEXT_HEADER]: forged } })
+    );
+
+    expect(forwardedHeaders(res).has(FORWARDED_CONTEXT_HEADER)).toBe(false);
+    expect(await getTokenContext(new Headers({ [FORWARDED_CONTEXT_HEADER]: forged }), { secret })).toEqual(
+      createEmptyContext()
+    );
+  });
+
+  test("should verify the context of requests, headers and Pages Router requests", async () => {
+    const res = await createZeroAdMiddleware(siteOptions)(
+      new NextRequest("https://example.com/", { headers: { [CLIENT_HEADER.HELLO]: headerValue } })
+    );
+    const request = new Request("https://example.com/", { headers: forwardedHeaders(res) });
+
+    const req = { headers: { [FORWARDED_CONTEXT_HEADER]: request.headers.get(FORWARDED_CONTEXT_HEADER) ?? "" } };
+
+    expect((await getTokenContext(request, { secret })).HIDE_ADVERTISEMENTS).toBe(true);
+    expect((await getTokenContext(req, { secret })).HIDE_ADVERTISEMENTS).toBe(true);
+    expect(await getTokenContext(request, { secret: "other-secret" })).toEqual(createEmptyContext());
+    expect(await getTokenContext(request, { secret, clientId: "other-site" })).toEqual(createEmptyContext());
+    expect(await getTokenContext(new Headers(), { secret })).toEqual(createEmptyContext());
+  });
+
+  test("should require a shared secret outside of development", async () => {
+    const { NODE_ENV } = process.env;
+    const records: LogRecord[] = [];
+    setLogSink((record) => records.push(record));
+
+    try {
+      const middleware = createZeroAdMiddleware({ ...siteOptions, secret: undefined });
+      await expect(middleware(new NextRequest("https://example.com/"))).rejects.toThrow(/ZEROAD_NEXT_SECRET/);
+      await expect(getTokenContext(new Headers())).rejects.toThrow(/ZEROAD_NEXT_SECRET/);
+
+      process.env.NODE_ENV = "development";
+      expect(await getTokenContext(new Headers())).toEqual(createEmptyContext());
+      expect(records.map(({ level, code }) => [level, code])).toEqual([["error", "NEXT_SECRET_MISSING"]]);
+    } finally {
+      process.env.NODE_ENV = NODE_ENV;
+      setLogSink(createJsonLinesSink());
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { createElement } from "react";
+import TestRenderer, { act, ReactTestRenderer } from "react-test-renderer";
+import { describe, test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { useTokenContext, ZeroAdGate, ZeroAdProvider } from "../react";
+import { createEmptyContext, createFeatureContext } from "../context";
+import { createTokenContextStore } from "../store";
+import { serializeTokenContext } from "../bootstrap";
+import { FEATURE } from "../constants";
+
+const cleanWeb = createFeatureContext([FEATURE.CLEAN_WEB]);
+const onePass = createFeatureContext([FEATURE.ONE_PASS]);
+
+function ShowContext() {
+  const tokenContext = useTokenContext();
+  return createElement("span", null, tokenContext.HIDE_ADVERTISEMENTS ? "no-ads" : "ads");
+}
+
+const Page = () =>
+  createElement(
+    "main",
+    null,
+    createElement(ZeroAdGate, { action: "HIDE_ADVERTISEMENTS", fallback: "[ad]" }),
+    createElement(ZeroAdGate, { action: "DISABLE_CONTENT_PAYWALL", fallback: "preview" }, "full article")
+  );
+
+async function render(element: ReturnType<typeof createElement>) {
+  let renderer: ReactTestRenderer | undefined;
+  await act(async () => {
+    renderer = TestRenderer.create(element);
+  });
+
+  return renderer as ReactTestRenderer;
+}
+
+describe("React bindings", () => {
+  const consoleError = console.error;
+  const errorSpy = spyOn(console, "error");
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+    // The renderer still works with React 19, only its deprecation notice is silenced
+    errorSpy.mockImplementation((...args: unknown[]) => {
+      if (!String(args[0]).startsWith("react-test-renderer is deprecated")) consoleError(...args);
+    });
+  });
+
+  afterAll(() => errorSpy.mockRestore());
+
+  test("should provide an empty context without a provider", async () => {
+    expect((await render(createElement(ShowContext))).toJSON()).toMatchObject({ children: ["ads"] });
+    expect((await render(createElement(Page))).toJSON()).toMatchObject({ children: ["[ad]", "preview"] });
+  });
+
+  test("should render gates from the server context", async () => {
+    const renderer = await render(createElement(ZeroAdProvider, { tokenContext: cleanWeb }, createElement(Page)));
+    expect(renderer.toJSON()).toMatchObject({ children: ["preview"] });
+
+    await act(async () => {
+      renderer.update(createElement(ZeroAdProvider, { tokenContext: onePass }, createElement(Page)));
+    });
+    expect(renderer.toJSON()).toMatchObject({ children: ["[ad]", "full article"] });
+  });
+
+  test("should accept the serialized context", async () => {
+    const renderer = await render(
+      createElement(ZeroAdProvider, { tokenContext: serializeTokenContext(cleanWeb) }, createElement(ShowContext))
+    );
+
+    expect(renderer.toJSON()).toMatchObject({ children: ["no-ads"] });
+  });
+
+  test("should re-render subscribers when a shared store changes", async () => {
+    const store = createTokenContextStore();
+    const renderer = await render(createElement(ZeroAdProvider, { store }, createElement(ShowContext)));
+    expect(renderer.toJSON()).toMatchObject({ children: ["ads"] });
+
+    await act(async () => store.set(cleanWeb));
+    expect(renderer.toJSON()).toMatchObject({ children: ["no-ads"] });
+
+    await act(async () => store.set(createEmptyContext()));
+    expect(renderer.toJSON()).toMatchObject({ children: ["ads"] });
+  });
+
+  test("should support several actions", async () => {
+    const gate = (mode: "all" | "any") =>
+      createElement(
+        ZeroAdProvider,
+        { tokenContext: cleanWeb },
+        createElement(
+          "p",
+          null,
+          createElement(
+            ZeroAdGate,
+            { action: ["HIDE_ADVERTISEMENTS", "DISABLE_CONTENT_PAYWALL"], mode, fallback: "no" },
+            "yes"
+          )
+        )
+      );
+
+    expect((await render(gate("all"))).toJSON()).toMatchObject({ children: ["no"] });
+    expect((await render(gate("any"))).toJSON()).toMatchObject({ children: ["yes"] });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach, setSystemTime, afterEach } from "bun:test";
+import { createMemoryReplayStore, createReplayMonitor, ReplayEvent } from "../replay";
+import { encodeClientHeader } from "../headers/client";
+import { CURRENT_PROTOCOL_VERSION, FEATURE } from "../constants";
+import { generateKeys } from "../crypto";
+
+describe("Replay monitor", () => {
+  let privateKey: string;
+  let publicKeys: { publicKey: string }[];
+  let headerValue: string;
+
+  const encode = () =>
+    encodeClientHeader(
+      {
+        version: CURRENT_PROTOCOL_VERSION,
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+        features: [FEATURE.CLEAN_WEB],
+      },
+      privateKey
+    );
+
+  beforeEach(async () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const keys = generateKeys();
+    privateKey = keys.privateKey;
+    publicKeys = [{ publicKey: keys.publicKey }];
+    headerValue = await encode();
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("should call `onThreshold` once when a token is shared by too many fingerprints", async () => {
+    const events: ReplayEvent[] = [];
+    const monitor = createReplayMonitor({ publicKeys, threshold: 2, onThreshold: (event) => void events.push(event) });
+
+    expect((await monitor.observe(headerValue, { ip: "10.0.0.1", userAgent: "A" }))?.fingerprints).toBe(1);
+    expect((await monitor.observe(headerValue, { ip: "10.0.0.1", userAgent: "A" }))?.fingerprints).toBe(1);
+    expect((await monitor.observe(headerValue, { ip: "10.0.0.2", userAgent: "A" }))?.exceeded).toBe(false);
+
+    const observation = await monitor.observe(headerValue, { ip: "10.0.0.3", userAgent: "B" });
+    await monitor.observe(headerValue, { ip: "10.0.0.4", userAgent: "B" });
+
+    expect(observation?.exceeded).toBe(true);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ fingerprints: 3, threshold: 2, windowStart: new Date("2026-01-01T00:00:00Z") });
+  });
+
+  test("should call `onThreshold` once when concurrent adds skip past the threshold", async () => {
+    const events: ReplayEvent[] = [];
+    const counts = [1, 5, 7, 6];
+    const monitor = createReplayMonitor({
+      publicKeys,
+      threshold: 3,
+      // A shared store also counting the adds of other instances
+      store: { add: async () => counts.shift() ?? 8, clear: () => undefined },
+      onThreshold: (event) => void events.push(event),
+    });
+
+    const observations = await Promise.all(
+      ["10.0.0.1", "10.0.0.2", "10.0.0.3", "10.0.0.4", "10.0.0.5"].map((ip) => monitor.observe(headerValue, { ip }))
+    );
+
+    expect(observations.map((observation) => observation?.exceeded)).toEqual([false, true, true, true, true]);
+    expect(events.map(({ fingerprints }) => fingerprints)).toEqual([5]);
+  });
+
+  test("should only report salted hashes", async () => {
+    const events: ReplayEvent[] = [];
+    const monitor = createReplayMonitor({
+      publicKeys,
+      threshold: 1,
+      salt: "salt",
+      onThreshold: (event) => void events.push(event),
+    });
+    const other = createReplayMonitor({ publicKeys, threshold: 1, salt: "other-salt" });
+
+    await monitor.observe(headerValue, { ip: "203.0.113.7" });
+    await monitor.observe(headerValue, { ip: "198.51.100.1" });
+    const { token } = (await other.observe(headerValue, { ip: "203.0.113.7" })) ?? {};
+
+    expect(JSON.stringify(events)).not.toContain("203.0.113.7");
+    expect(events[0].token).toMatch(/^[A-Za-z0-9+/]+=*$/);
+    expect(events[0].token).not.toBe(token);
+  });
+
+  test("should count tokens separately and start over in the next window", async () => {
+    const monitor = createReplayMonitor({ publicKeys, threshold: 1, window: 60_000 });
+    const otherToken = await encode();
+
+    await monitor.observe(headerValue, { ip: "10.0.0.1" });
+    expect((await monitor.observe(otherToken, { ip: "10.0.0.2" }))?.fingerprints).toBe(1);
+    expect((await monitor.observe(headerValue, { ip: "10.0.0.2" }))?.exceeded).toBe(true);
+
+    setSystemTime(new Date("2026-01-01T00:01:00Z"));
+    expect((await monitor.observe(headerValue, { ip: "10.0.0.3" }))?.fingerprints).toBe(1);
+  });
+
+  test("should ignore values that are not verified client tokens", async () => {
+    const events: ReplayEvent[] = [];
+    const monitor = createReplayMonitor({ publicKeys, threshold: 1, onThreshold: (event) => void events.push(event) });
+
+    expect(await monitor.observe(undefined, { ip: "10.0.0.1" })).toBeUndefined();
+    expect(await monitor.observe("garbage", { ip: "10.0.0.1" })).toBeUndefined();
+
+    // Signed by an untrusted key
+    privateKey = generateKeys().privateKey;
+    const forged = await encode();
+
+    expect(await monitor.observe(forged, { ip: "10.0.0.1" })).toBeUndefined();
+    expect(await monitor.observe(forged, { ip: "10.0.0.2" })).toBeUndefined();
+    expect(events).toEqual([]);
+  });
+
+  test("should log and skip store failures", async () => {
+    const monitor = createReplayMonitor({
+      publicKeys,
+      store: {
+        add: () => Promise.reject(new Error("Connection lost")),
+        clear: () => undefined,
+      },
+    });
+
+    expect(await monitor.observe(headerValue, { ip: "10.0.0.1" })).toBeUndefined();
+  });
+
+  test("should validate options", () => {
+    expect(() => createReplayMonitor({ threshold: 0 })).toThrow("Replay threshold must be >= 1");
+    expect(() => createReplayMonitor({ window: 0 })).toThrow("Replay window must be >= 1");
+  });
+
+  describe("createMemoryReplayStore()", () => {
+    test("should bound the number of windows and fingerprints", () => {
+      const store = createMemoryReplayStore({ maxKeys: 2, maxFingerprints: 2 });
+
+      expect(store.add("a", "1", 1000)).toBe(1);
+      expect(store.add("a", "2", 1000)).toBe(2);
+      expect(store.add("a", "3", 1000)).toBe(2);
+
+      store.add("b", "1", 1000);
+      store.add("c", "1", 1000);
+
+      // "a" was the oldest window and got dropped
+      expect(store.add("a", "1", 1000)).toBe(1);
+    });
+
+    test("should expire windows", () => {
+      const store = createMemoryReplayStore();
+
+      store.add("a", "1", 1000);
+      setSystemTime(new Date(Date.now() + 1000));
+
+      expect(store.add("a", "2", 1000)).toBe(1);
+    });
+  });
+});
@@ -1,7 +1,29 @@
 import { randomUUID } from "crypto";
 import { describe, test, expect, beforeEach } from "bun:test";
-import { decodeServerHeader, encodeServerHeader } from "../headers/server";
-import { FEATURE } from "../constants";
+import { decodeServerHeader, encodeServerHeader, negotiateProtocolVersion } from "../headers/server";
+import { FEATURE, PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from "../constants";
+import { assert, FEATURE_MAP, hasFlag } from "../helpers";
+
+// `decodeServerHeader()` as released up to 0.14, which only knew the three part header
+function decodeV1ServerHeader(headerValue: string) {
+  try {
+    const parts = headerValue.split("^");
+    assert(parts.length === 3, "Invalid header value format");
+
+    const [clientId, protocolVersion, flags] = parts;
+    assert(Object.values(PROTOCOL_VERSION).includes(Number(protocolVersion)), "Invalid protocol version");
+    assert(Number(flags).toFixed(0).toString() === flags, "Invalid flags number");
+
+    const features: (keyof typeof FEATURE)[] = [];
+    for (const [feature, bit] of FEATURE_MAP) {
+      if (hasFlag(Number(flags), bit)) features.push(feature);
+    }
+
+    return { version: Number(protocolVersion), clientId, features };
+  } catch {
+    return undefined;
+  }
+}
 
 describe("Server Header", () => {
   let clientId: string;
@@ -35,6 +57,53 @@ describe("Server Header", () => {
       expect(decodeServerHeader("ZBhyPJ1VS5W5zrxNvf/IEg^0^1")).toBeUndefined();
       expect(decodeServerHeader("ZBhyPJ1VS5W5zrxNvf/IEg^1^1.1")).toBeUndefined();
       expect(decodeServerHeader("ZBhyPJ1VS5W5zrxNvf/IEg^1.1^1")).toBeUndefined();
+      expect(decodeServerHeader("ZBhyPJ1VS5W5zrxNvf/IEg^1^1^paths=%2Fnews^extra")).toBeUndefined();
+      expect(decodeServerHeader("ZBhyPJ1VS5W5zrxNvf/IEg^1^1^paths=%2Fnews")).toBeUndefined();
+    });
+
+    test("should parse advertised versions, policy URL and path features", () => {
+      const headerValue = encodeServerHeader(clientId, [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS], {
+        versions: [...SUPPORTED_PROTOCOL_VERSIONS],
+        policyUrl: "https://example.com/zeroad?lang=en;v=1",
+        paths: [
+          { pattern: "/premium-reports/*", features: [FEATURE.CLEAN_WEB] },
+          { pattern: "/a,b:c^d/*", features: [] },
+        ],
+      });
+
+      expect(headerValue.startsWith(`${clientId}^1^3^`)).toBe(true);
+      expect(decodeServerHeader(headerValue)).toEqual({
+        clientId,
+        version: PROTOCOL_VERSION.V_1,
+        features: ["CLEAN_WEB", "ONE_PASS"],
+        versions: [PROTOCOL_VERSION.V_1, PROTOCOL_VERSION.V_2],
+        policyUrl: "https://example.com/zeroad?lang=en;v=1",
+        paths: [
+          { pattern: "/premium-reports/*", features: ["CLEAN_WEB"] },
+          { pattern: "/a,b:c^d/*", features: [] },
+        ],
+      });
+    });
+
+    test("should ignore unknown params and protocol versions", () => {
+      expect(decodeServerHeader(`${clientId}^1^1^versions=1,2,7;future=yes`)).toEqual({
+        clientId,
+        version: PROTOCOL_VERSION.V_1,
+        features: ["CLEAN_WEB"],
+        versions: [PROTOCOL_VERSION.V_1, PROTOCOL_VERSION.V_2],
+      });
+    });
+  });
+
+  describe("negotiateProtocolVersion()", () => {
+    test("should pick the highest version supported by both sides", () => {
+      const legacy = decodeServerHeader(`${clientId}^1^1`)!;
+      const current = decodeServerHeader(`${clientId}^1^1^versions=1,2`)!;
+
+      expect(negotiateProtocolVersion(legacy)).toBe(PROTOCOL_VERSION.V_1);
+      expect(negotiateProtocolVersion(current)).toBe(PROTOCOL_VERSION.V_2);
+      expect(negotiateProtocolVersion(current, [PROTOCOL_VERSION.V_1])).toBe(PROTOCOL_VERSION.V_1);
+      expect(negotiateProtocolVersion({ ...current, versions: [] })).toBeUndefined();
     });
   });
 
@@ -54,5 +123,22 @@ describe("Server Header", () => {
         encodeServerHeader(clientId, ["not a real feature", FEATURE.CLEAN_WEB, "should fail"] as never)
       ).toThrow(/Only valid site features are allowed: CLEAN_WEB | ONE_PASS/);
     });
+
+    test("should keep the three part format unless extras are provided", () => {
+      expect(encodeServerHeader(clientId, [FEATURE.CLEAN_WEB], {})).toBe(`${clientId}^1^1`);
+      expect(() => encodeServerHeader(clientId, [FEATURE.CLEAN_WEB], { versions: [9 as never] })).toThrow(
+        /Only supported protocol versions are allowed/
+      );
+    });
+
+    test("should only break older parsers when extras are opted into", () => {
+      const plain = encodeServerHeader(clientId, [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+      const extended = encodeServerHeader(clientId, [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS], {
+        versions: [...SUPPORTED_PROTOCOL_VERSIONS],
+      });
+
+      expect(decodeV1ServerHeader(plain)).toEqual(decodeServerHeader(plain));
+      expect(decodeV1ServerHeader(extended)).toBeUndefined();
+    });
   });
 });
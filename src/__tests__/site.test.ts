@@ -1,8 +1,16 @@
 import { randomUUID } from "crypto";
 import { describe, test, expect, beforeEach, spyOn } from "bun:test";
-import { CLIENT_HEADER, CURRENT_PROTOCOL_VERSION, FEATURE, SERVER_HEADER } from "../constants";
+import {
+  CLIENT_HEADER,
+  CURRENT_PROTOCOL_VERSION,
+  FEATURE,
+  SERVER_HEADER,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../constants";
 import { encodeClientHeader } from "../headers/client";
 import * as clientHeader from "../headers/client";
+import { configureCaching } from "../headers/client/cache";
+import { decodeServerHeader } from "../headers/server";
 import { generateKeys } from "../crypto";
 import { Site } from "../site";
 
@@ -23,6 +31,20 @@ describe("Site()", () => {
     expect(site.SERVER_HEADER_VALUE).toBe(`${clientId}^1^3`);
   });
 
+  test("should advertise protocol versions and the policy URL in the server header", () => {
+    const site = Site({
+      clientId,
+      features: [FEATURE.CLEAN_WEB],
+      protocolVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+      policyUrl: "https://example.com/policy",
+    });
+
+    expect(decodeServerHeader(site.SERVER_HEADER_VALUE)).toMatchObject({
+      versions: [...SUPPORTED_PROTOCOL_VERSIONS],
+      policyUrl: "https://example.com/policy",
+    });
+  });
+
   test("should contain correct client hello header name", () => {
     const site = Site({ clientId, features: [FEATURE.CLEAN_WEB] });
     expect(site.CLIENT_HEADER_NAME).toEqual(CLIENT_HEADER.HELLO.toLowerCase());
@@ -42,7 +64,13 @@ describe("Site()", () => {
     const tokenContext = await site.parseClientToken(clientHeaderValue);
 
     expect(clientHeader.parseClientToken).toHaveBeenCalledTimes(1);
-    expect(clientHeader.parseClientToken).toHaveBeenCalledWith(clientHeaderValue, { clientId, features });
+    expect(clientHeader.parseClientToken).toHaveBeenCalledWith(clientHeaderValue, {
+      clientId,
+      features,
+      cache: site.cache,
+      metrics: expect.any(Function),
+      logger: expect.any(Object),
+    });
 
     expect(tokenContext).toEqual({
       DISABLE_CONTENT_PAYWALL: false,
@@ -53,4 +81,163 @@ describe("Site()", () => {
       HIDE_MARKETING_DIALOGS: false,
     });
   });
+
+  test("should keep caches and configuration isolated between instances", async () => {
+    const features = [FEATURE.CLEAN_WEB];
+    const first = Site({ clientId, features, cacheConfig: { maxSize: 1 } });
+    const second = Site({ clientId: randomUUID(), features, cacheConfig: { ttl: 1000 } });
+
+    expect(first.cache.getConfig()).toEqual({ enabled: true, maxSize: 1, ttl: 5000 });
+    expect(second.cache.getConfig()).toEqual({ enabled: true, maxSize: 100, ttl: 1000 });
+
+    const expiresAt = new Date(Date.now() + 24 * 3600 * 1000);
+    const clientHeaderValue = await encodeClientHeader(
+      { version: CURRENT_PROTOCOL_VERSION, expiresAt, features },
+      privateKey
+    );
+
+    await first.parseClientToken(clientHeaderValue);
+    await first.parseClientToken(clientHeaderValue);
+
+    expect(first.cache.getStats()).toEqual({ hits: 1, misses: 1, size: 1 });
+    expect(second.cache.getStats()).toEqual({ hits: 0, misses: 0, size: 0 });
+
+    await first.cache.clear();
+    expect(first.cache.getStats()).toEqual({ hits: 0, misses: 0, size: 0 });
+  });
+
+  test("should follow global cache configuration for unset fields", () => {
+    const site = Site({ clientId, features: [FEATURE.CLEAN_WEB], cacheConfig: { maxSize: 10 } });
+
+    configureCaching({ ttl: 2000 });
+    expect(site.cache.getConfig()).toEqual({ enabled: true, maxSize: 10, ttl: 2000 });
+
+    configureCaching({ ttl: 5000 });
+  });
+
+  test("should call parseClientTokenDetailed() correctly", async () => {
+    const features = [FEATURE.CLEAN_WEB];
+    const site = Site({ clientId, features });
+
+    spyOn(clientHeader, "parseClientTokenDetailed");
+    const result = await site.parseClientTokenDetailed(undefined);
+
+    expect(clientHeader.parseClientTokenDetailed).toHaveBeenCalledWith(undefined, {
+      clientId,
+      features,
+      cache: site.cache,
+      metrics: expect.any(Function),
+      logger: expect.any(Object),
+    });
+    expect(result.status).toBe("missing");
+  });
+
+  describe("routes", () => {
+    const routes = [
+      { path: "/premium-reports", features: [FEATURE.CLEAN_WEB] },
+      { path: "/archive/*.pdf", features: [FEATURE.ONE_PASS] },
+      { path: (path: string) => path.startsWith("/beta"), features: [FEATURE.CLEAN_WEB] },
+    ];
+
+    test("should resolve the first route matching the request path", () => {
+      const site = Site({ clientId, features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS], routes });
+
+      expect(site.forRequest("/premium-reports/2026?page=2").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("https://example.com/archive/2025/q4.pdf").features).toEqual([FEATURE.ONE_PASS]);
+      expect(site.forRequest(new URL("https://example.com/beta/feature")).features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/news/today").features).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+      expect(site.forRequest("premium-reports/2026").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("news/today").features).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+      expect(site.forRequest("/premium-reportsx").features).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+    });
+
+    test("should normalize request paths before matching routes", () => {
+      const site = Site({
+        clientId,
+        features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS],
+        routes: [{ path: "/premium-reports/*", features: [FEATURE.CLEAN_WEB] }],
+      });
+
+      expect(site.forRequest("/premium-reports").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/Premium-Reports/a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("//premium-reports/a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/premium-reports//a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/%70remium-reports/a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/news/../premium-reports/a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("https://example.com//PREMIUM-reports/a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/premium-reportsx").features).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+      expect(site.forRequest("/%E0/premium-reports").features).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+    });
+
+    test("should match string routes case-sensitively when configured", () => {
+      const site = Site({
+        clientId,
+        features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS],
+        routes: [{ path: "/premium-reports", features: [FEATURE.CLEAN_WEB] }],
+        caseSensitivePaths: true,
+      });
+
+      expect(site.forRequest("/%70remium-reports/a").features).toEqual([FEATURE.CLEAN_WEB]);
+      expect(site.forRequest("/Premium-Reports/a").features).toEqual([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS]);
+    });
+
+    test("should send the route features in the welcome header", () => {
+      const site = Site({ clientId, features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS], routes });
+
+      // Three part headers unless routes are advertised
+      expect(site.SERVER_HEADER_VALUE).toBe(`${clientId}^1^3`);
+      expect(site.forRequest("/premium-reports").SERVER_HEADER_VALUE).toBe(`${clientId}^1^1`);
+    });
+
+    test("should advertise string routes in the welcome header when opted in", () => {
+      const site = Site({ clientId, features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS], routes, advertiseRoutes: true });
+      const paths = [
+        { pattern: "/premium-reports", features: ["CLEAN_WEB"] },
+        { pattern: "/archive/*.pdf", features: ["ONE_PASS"] },
+      ];
+
+      expect(decodeServerHeader(site.SERVER_HEADER_VALUE)).toMatchObject({
+        features: ["CLEAN_WEB", "ONE_PASS"],
+        paths,
+      });
+      expect(decodeServerHeader(site.forRequest("/premium-reports").SERVER_HEADER_VALUE)).toMatchObject({
+        features: ["CLEAN_WEB"],
+        paths,
+      });
+    });
+
+    test("should parse tokens with the route features", async () => {
+      const keys = generateKeys();
+      const site = Site({
+        clientId,
+        features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS],
+        publicKeys: [{ publicKey: keys.publicKey }],
+        routes,
+      });
+      const headerValue = await encodeClientHeader(
+        {
+          version: CURRENT_PROTOCOL_VERSION,
+          expiresAt: new Date(Date.now() + 3600 * 1000),
+          features: [FEATURE.CLEAN_WEB, FEATURE.ONE_PASS],
+        },
+        keys.privateKey
+      );
+
+      const news = await site.forRequest("/news/today").parseClientToken(headerValue);
+      expect(news).toMatchObject({ HIDE_ADVERTISEMENTS: true, DISABLE_CONTENT_PAYWALL: true });
+
+      const reports = await site.forRequest("/premium-reports/q1").parseClientTokenDetailed(headerValue);
+      expect(reports.status).toBe("valid");
+      expect(reports.context).toMatchObject({ HIDE_ADVERTISEMENTS: true, DISABLE_CONTENT_PAYWALL: false });
+
+      // Both routes share the site cache
+      expect(site.cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    test("should reject routes without features", () => {
+      expect(() =>
+        Site({ clientId, features: [FEATURE.CLEAN_WEB], routes: [{ path: "/free", features: [] }] })
+      ).toThrow(/Every route needs at least one feature/);
+    });
+  });
 });
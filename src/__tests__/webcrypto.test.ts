@@ -0,0 +1,118 @@
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { randomUUID } from "crypto";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { CURRENT_PROTOCOL_VERSION, FEATURE, ZEROAD_NETWORK_PUBLIC_KEY } from "../constants";
+import { decodeClientHeader, encodeClientHeader, parseClientToken } from "../headers/client";
+import { getCryptoBackend, setCryptoBackend } from "../backend";
+import { webCryptoBackend } from "../webcrypto";
+import { nodeCryptoBackend } from "../crypto";
+
+describe("WebCrypto backend", () => {
+  let privateKey: string;
+  let publicKey: string;
+
+  beforeEach(async () => {
+    const keys = await webCryptoBackend.generateKeys();
+
+    privateKey = keys.privateKey;
+    publicKey = keys.publicKey;
+  });
+
+  afterEach(() => {
+    setCryptoBackend(webCryptoBackend);
+  });
+
+  test("should sign and verify data", async () => {
+    const data = new TextEncoder().encode("hello").buffer as ArrayBuffer;
+    const signature = await webCryptoBackend.sign(data, privateKey);
+
+    expect(signature.byteLength).toBe(64);
+    expect(await webCryptoBackend.verify(data, signature.buffer as ArrayBuffer, publicKey)).toBe(true);
+    expect(await webCryptoBackend.verify(data, signature.buffer as ArrayBuffer, ZEROAD_NETWORK_PUBLIC_KEY)).toBe(false);
+  });
+
+  test("should compute the same HMAC as the node:crypto backend", async () => {
+    const data = new TextEncoder().encode("forwarded").buffer as ArrayBuffer;
+    const signature = await webCryptoBackend.hmac?.(data, "secret");
+
+    expect(signature?.byteLength).toBe(32);
+    expect(signature).toEqual(await nodeCryptoBackend.hmac?.(data, "secret"));
+  });
+
+  test("should interoperate with the node:crypto backend", async () => {
+    const nodeKeys = nodeCryptoBackend.generateKeys() as { privateKey: string; publicKey: string };
+    const data = new TextEncoder().encode("interop").buffer as ArrayBuffer;
+
+    const webSignature = await webCryptoBackend.sign(data, nodeKeys.privateKey);
+    expect(await nodeCryptoBackend.verify(data, webSignature.buffer as ArrayBuffer, nodeKeys.publicKey)).toBe(true);
+
+    const nodeSignature = await nodeCryptoBackend.sign(data, privateKey);
+    expect(await webCryptoBackend.verify(data, nodeSignature.buffer as ArrayBuffer, publicKey)).toBe(true);
+  });
+
+  test("should be used by default when no backend is selected", async () => {
+    setCryptoBackend(nodeCryptoBackend);
+
+    // A fresh module instance, unaffected by backends selected in this or earlier test files
+    const backend: typeof import("../backend") = await import(`../backend?fresh=${Date.now()}`);
+    expect(backend.getCryptoBackend()).toBe(webCryptoBackend);
+    expect(getCryptoBackend()).toBe(nodeCryptoBackend);
+  });
+
+  test("should encode and parse client tokens when selected", async () => {
+    setCryptoBackend(webCryptoBackend);
+
+    const clientId = randomUUID();
+    const expiresAt = new Date(Date.now() + 24 * 3600 * 1000);
+    const features = [FEATURE.CLEAN_WEB];
+    const headerValue = await encodeClientHeader(
+      { version: CURRENT_PROTOCOL_VERSION, expiresAt, features },
+      privateKey
+    );
+
+    expect(await decodeClientHeader(headerValue, publicKey)).toEqual({
+      expiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000),
+      version: CURRENT_PROTOCOL_VERSION,
+      flags: 1,
+    });
+
+    const tokenContext = await parseClientToken(headerValue, { clientId, publicKey, features, bypassCache: true });
+    expect(tokenContext.HIDE_ADVERTISEMENTS).toBe(true);
+  });
+
+  test("should not pull Node.js built-ins into the edge, fetch, next and browser entry points", () => {
+    const visited = new Set<string>();
+    const nodeImports: string[] = [];
+
+    const walk = (file: string) => {
+      if (visited.has(file)) return;
+      visited.add(file);
+
+      const source = readFileSync(file, "utf8");
+      for (const [, specifier] of source.matchAll(/from\s+"([^"]+)"/g)) {
+        if (specifier.startsWith("node:") || !specifier.startsWith(".")) nodeImports.push(`${file}: ${specifier}`);
+        else walk(resolveSource(join(dirname(file), specifier)));
+      }
+    };
+
+    walk(join(import.meta.dir, "../edge.ts"));
+    walk(join(import.meta.dir, "../fetch.ts"));
+    walk(join(import.meta.dir, "../browser.ts"));
+    walk(join(import.meta.dir, "../next.ts"));
+    expect(nodeImports).toEqual([]);
+  });
+});
+
+function resolveSource(path: string) {
+  for (const candidate of [`${path}.ts`, join(path, "index.ts")]) {
+    try {
+      readFileSync(candidate);
+      return candidate;
+    } catch {
+      // try next candidate
+    }
+  }
+
+  throw new Error(`Cannot resolve ${path}`);
+}
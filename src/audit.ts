@@ -0,0 +1,261 @@
+import type { FEATURE_ACTION, TokenContext } from "./headers/client";
+import { ZEROAD_ELEMENT_MARKERS } from "./html";
+import { canDecodeBody, decodeBody } from "./helpers";
+import { log } from "./logger";
+
+export type AuditRule = "ad-network" | "consent-manager" | "tracker" | "marked-element";
+
+export type AuditFinding = {
+  rule: AuditRule;
+  action: FEATURE_ACTION; // The enabled token context action the markup violates
+  match: string; // Matched host or `data-zeroad` marker
+  tag: string; // Offending opening tag, truncated
+};
+
+export type AuditReport = {
+  url?: string;
+  findings: AuditFinding[];
+};
+
+type HostRule = Exclude<AuditRule, "marked-element">;
+
+export type ComplianceAuditorOptions = {
+  onFindings?: (report: AuditReport) => void; // Defaults to a logger warning
+  hosts?: Partial<Record<HostRule, string[]>>; // Extra hosts (optionally with a path prefix) per rule
+  maxBytes?: number; // Larger bodies are only audited up to this size, defaults to 1 MiB
+};
+
+export type ComplianceAuditor = {
+  readonly maxBytes: number;
+  audit(html: string, tokenContext: TokenContext, url?: string): AuditFinding[];
+  auditResponse(response: Response, tokenContext: TokenContext, url?: string): Response;
+};
+
+const RULE_ACTIONS: Readonly<Record<HostRule, FEATURE_ACTION>> = Object.freeze({
+  "ad-network": "HIDE_ADVERTISEMENTS",
+  "consent-manager": "HIDE_COOKIE_CONSENT_SCREEN",
+  tracker: "DISABLE_NON_FUNCTIONAL_TRACKING",
+});
+
+/**
+ * Well-known hosts per rule, subdomains included. Entries with a path only match URLs below it.
+ */
+export const AUDIT_HOSTS: Readonly<Record<HostRule, ReadonlyArray<string>>> = Object.freeze({
+  "ad-network": Object.freeze([
+    "googlesyndication.com",
+    "doubleclick.net",
+    "adservice.google.com",
+    "amazon-adsystem.com",
+    "adnxs.com",
+    "criteo.com",
+    "criteo.net",
+    "taboola.com",
+    "outbrain.com",
+    "pubmatic.com",
+    "rubiconproject.com",
+    "openx.net",
+    "media.net",
+    "adsrvr.org",
+    "moatads.com",
+  ]),
+  "consent-manager": Object.freeze([
+    "cookielaw.org",
+    "onetrust.com",
+    "cookiebot.com",
+    "consensu.org",
+    "quantcast.com",
+    "trustarc.com",
+    "didomi.io",
+    "usercentrics.eu",
+    "iubenda.com",
+    "termly.io",
+    "cookieyes.com",
+  ]),
+  tracker: Object.freeze([
+    "google-analytics.com",
+    "googletagmanager.com",
+    "facebook.com/tr",
+    "connect.facebook.net",
+    "analytics.tiktok.com",
+    "bat.bing.com",
+    "px.ads.linkedin.com",
+    "snap.licdn.com",
+    "hotjar.com",
+    "cdn.segment.com",
+    "cdn.mxpnl.com",
+    "scorecardresearch.com",
+    "quantserve.com",
+  ]),
+});
+
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const MAX_TAG_LENGTH = 200;
+
+const COMMENT = /<!--[\s\S]*?-->/g;
+const TAG = /<([a-zA-Z][^\s/>]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+const attribute = (name: string) => new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i");
+const SRC_ATTRIBUTE = attribute("src");
+const MARKER_ATTRIBUTE = attribute("data-zeroad");
+const WIDTH_ATTRIBUTE = attribute("width");
+const HEIGHT_ATTRIBUTE = attribute("height");
+
+const SOURCE_TAGS = new Set(["script", "img", "iframe"]);
+
+function attributeValue(pattern: RegExp, attributes: string) {
+  const match = pattern.exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function matchHost(url: URL, entry: string) {
+  const slash = entry.indexOf("/");
+  const host = slash === -1 ? entry : entry.slice(0, slash);
+  const path = slash === -1 ? "" : entry.slice(slash);
+
+  return (url.hostname === host || url.hostname.endsWith(`.${host}`)) && url.pathname.startsWith(path);
+}
+
+function parseUrl(src: string) {
+  try {
+    return new URL(src.startsWith("//") ? `https:${src}` : src);
+  } catch {
+    return undefined; // Relative URLs are first party
+  }
+}
+
+export const isAuditedContext = (tokenContext: TokenContext | undefined) =>
+  !!tokenContext && Object.values(tokenContext).some(Boolean);
+
+/**
+ * Scans HTML for ad, consent manager and tracker markup, and for `data-zeroad` marked elements,
+ * that the token context requires to be absent. Comments are ignored.
+ */
+export function auditHtml(
+  html: string,
+  tokenContext: TokenContext,
+  hosts: Readonly<Record<HostRule, ReadonlyArray<string>>> = AUDIT_HOSTS
+): AuditFinding[] {
+  if (!isAuditedContext(tokenContext)) return [];
+
+  const findings: AuditFinding[] = [];
+  const report = (rule: AuditRule, action: FEATURE_ACTION, match: string, tag: string) => {
+    if (tokenContext[action]) findings.push({ rule, action, match, tag: tag.slice(0, MAX_TAG_LENGTH) });
+  };
+
+  for (const [tag, tagName, attributes] of html.replace(COMMENT, "").matchAll(TAG)) {
+    const name = tagName.toLowerCase();
+
+    const marker = attributeValue(MARKER_ATTRIBUTE, attributes);
+    for (const value of marker?.split(/\s+/) ?? []) {
+      const action = ZEROAD_ELEMENT_MARKERS[value.toLowerCase()];
+      if (action) report("marked-element", action, value, tag);
+    }
+
+    const src = SOURCE_TAGS.has(name) ? attributeValue(SRC_ATTRIBUTE, attributes) : undefined;
+    const url = src && parseUrl(src);
+    if (!url) continue;
+
+    const rule = (Object.keys(RULE_ACTIONS) as HostRule[]).find((rule) =>
+      hosts[rule].some((entry) => matchHost(url, entry))
+    );
+
+    if (rule) {
+      report(rule, RULE_ACTIONS[rule], url.hostname, tag);
+    } else if (
+      name === "img" &&
+      attributeValue(WIDTH_ATTRIBUTE, attributes) === "1" &&
+      attributeValue(HEIGHT_ATTRIBUTE, attributes) === "1"
+    ) {
+      report("tracker", RULE_ACTIONS.tracker, url.hostname, tag); // Third party 1x1 pixel
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Decodes the first `maxBytes` of `stream`, then cancels it so the rest is not buffered for the audit.
+ */
+async function readPrefix(stream: ReadableStream<Uint8Array>, maxBytes: number) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let html = "";
+  let size = 0;
+
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return html + decoder.decode();
+
+    const chunk = value.subarray(0, maxBytes - size);
+    size += chunk.byteLength;
+    html += decoder.decode(chunk, { stream: true });
+  }
+
+  // Not awaited: a tee branch's cancel only settles once the other branch is done too
+  reader.cancel().catch(() => undefined);
+  return html + decoder.decode();
+}
+
+export const isHtmlContentType = (contentType: string | null | undefined) => !!contentType?.includes("text/html");
+
+/**
+ * Audits `html()` once Node.js is done with the current I/O, off the response path. Failures,
+ * including a throwing `onFindings`, are logged.
+ */
+export function auditLater(auditor: ComplianceAuditor, html: () => string, tokenContext: TokenContext, url?: string) {
+  setImmediate(() => {
+    try {
+      auditor.audit(html(), tokenContext, url);
+    } catch (err) {
+      log("warn", "AUDIT_FAILED", { url, reason: (err as Error)?.message });
+    }
+  });
+}
+
+/**
+ * Opt-in auditor for outgoing HTML, used through the `audit` option of the framework integrations.
+ * Findings are reported to `onFindings`, or logged as warnings by default.
+ */
+export function createComplianceAuditor(options: ComplianceAuditorOptions = {}): ComplianceAuditor {
+  const { maxBytes = DEFAULT_MAX_BYTES, hosts: extraHosts = {} } = options;
+  const hosts = Object.fromEntries(
+    (Object.keys(AUDIT_HOSTS) as HostRule[]).map((rule) => [rule, [...AUDIT_HOSTS[rule], ...(extraHosts[rule] ?? [])]])
+  ) as Record<HostRule, string[]>;
+
+  const onFindings = options.onFindings ?? ((report: AuditReport) => log("warn", "AUDIT_FINDINGS", report));
+
+  const auditor: ComplianceAuditor = {
+    maxBytes,
+
+    audit(html, tokenContext, url) {
+      const findings = auditHtml(html.slice(0, maxBytes), tokenContext, hosts);
+      if (findings.length) onFindings({ url, findings });
+
+      return findings;
+    },
+
+    auditResponse(response, tokenContext, url) {
+      const contentEncoding = response.headers.get("Content-Encoding");
+      if (
+        !response.body ||
+        !isAuditedContext(tokenContext) ||
+        !isHtmlContentType(response.headers.get("Content-Type")) ||
+        !canDecodeBody(contentEncoding)
+      ) {
+        return response;
+      }
+
+      const [body, copy] = response.body.tee();
+      readPrefix(decodeBody(copy, contentEncoding), maxBytes)
+        .then((html) => auditor.audit(html, tokenContext, url))
+        .catch((err) => log("warn", "AUDIT_FAILED", { url, reason: (err as Error)?.message }));
+
+      return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    },
+  };
+
+  return auditor;
+}
@@ -0,0 +1,38 @@
+import { hmac as webCryptoHmac, webCryptoBackend } from "./webcrypto";
+
+export type KeyPair = {
+  privateKey: string; // base64 encoded PKCS8 DER
+  publicKey: string; // base64 encoded SPKI DER
+};
+
+export type CryptoBackend = {
+  name: string;
+  generateKeys(): KeyPair | Promise<KeyPair>;
+  sign(data: ArrayBuffer, privateKey: string): Promise<Uint8Array>;
+  verify(data: ArrayBuffer, signature: ArrayBuffer, publicKey: string): Promise<boolean>;
+  nonce(size: number): Uint8Array;
+  hmac?(data: ArrayBuffer, secret: string): Promise<Uint8Array>; // HMAC-SHA256, used to sign forwarded contexts
+};
+
+let cryptoBackend: CryptoBackend | undefined;
+
+/**
+ * Explicitly select the crypto backend used to sign and verify tokens.
+ * When none is set, the Node.js entry point uses `node:crypto` and every other
+ * entry point falls back to the WebCrypto (`crypto.subtle`) implementation.
+ */
+export function setCryptoBackend(backend: CryptoBackend): void {
+  cryptoBackend = backend;
+}
+
+export function getCryptoBackend(): CryptoBackend {
+  return cryptoBackend ?? webCryptoBackend;
+}
+
+/**
+ * HMAC-SHA256 with the selected backend. Custom backends may not implement it,
+ * WebCrypto is available wherever they'd run.
+ */
+export function hmac(data: ArrayBuffer, secret: string): Promise<Uint8Array> {
+  return (getCryptoBackend().hmac ?? webCryptoHmac)(data, secret);
+}
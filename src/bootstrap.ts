@@ -0,0 +1,65 @@
+import { SERVER_HEADER } from "./constants";
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "./context";
+
+/**
+ * Elements carrying the server's token context to client-side code, read back by
+ * `readTokenContext()` from `@zeroad.network/token/browser`.
+ */
+export const TOKEN_CONTEXT_ELEMENT_ID = "zeroad-token-context";
+export const TOKEN_CONTEXT_META_NAME = "zeroad-token-context";
+export const WELCOME_META_NAME = SERVER_HEADER.WELCOME;
+
+export type TokenContextMarkupOptions = {
+  nonce?: string; // CSP nonce for the `<script>` block
+  welcome?: string; // Welcome header value to mirror in a `<meta>` tag, e.g. `site.SERVER_HEADER_VALUE`
+};
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", '"': "&quot;", "'": "&#39;", "<": "&lt;", ">": "&gt;" };
+
+// Keeps JSON from closing the script element or being parsed as HTML inside it
+const SCRIPT_ESCAPES: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+};
+
+const escapeHtmlAttribute = (value: string) => value.replace(/[&"'<>]/g, (char) => HTML_ESCAPES[char]);
+
+/**
+ * JSON serialization of the known actions only: the raw token is never exposed to the page.
+ */
+export function serializeTokenContext(tokenContext: TokenContext): string {
+  const actions = { ...createEmptyContext() };
+  for (const action of Object.keys(actions) as FEATURE_ACTION[]) actions[action] = tokenContext[action] === true;
+
+  return JSON.stringify(actions);
+}
+
+const welcomeMeta = (welcome: string | undefined) =>
+  welcome ? `<meta name="${WELCOME_META_NAME}" content="${escapeHtmlAttribute(welcome)}">` : "";
+
+/**
+ * `<script type="application/json">` bootstrap block, the preferred form for larger pages and CSP setups.
+ */
+export function renderTokenContextScript(tokenContext: TokenContext, options: TokenContextMarkupOptions = {}): string {
+  const json = serializeTokenContext(tokenContext).replace(/[<>&\u2028\u2029]/g, (char) => SCRIPT_ESCAPES[char]);
+  const nonce = options.nonce ? ` nonce="${escapeHtmlAttribute(options.nonce)}"` : "";
+
+  return (
+    welcomeMeta(options.welcome) +
+    `<script type="application/json" id="${TOKEN_CONTEXT_ELEMENT_ID}"${nonce}>${json}</script>`
+  );
+}
+
+/**
+ * `<meta>` tag form of the bootstrap, for `<head>` templates that can't hold scripts.
+ */
+export function renderTokenContextMeta(
+  tokenContext: TokenContext,
+  options: Omit<TokenContextMarkupOptions, "nonce"> = {}
+): string {
+  const content = escapeHtmlAttribute(serializeTokenContext(tokenContext));
+  return welcomeMeta(options.welcome) + `<meta name="${TOKEN_CONTEXT_META_NAME}" content="${content}">`;
+}
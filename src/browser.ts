@@ -1,5 +1,38 @@
+import { readTokenContext } from "./dom";
+import { createTokenContextStore, TokenContextListener, TokenContextStore } from "./store";
+import { TokenContext } from "./context";
+
 export type * from "./constants";
-export type { WelcomeHeader } from "./headers/server";
+export type { PathFeatures, WelcomeHeader } from "./headers/server";
+export type { FEATURE_ACTION, TokenContext } from "./context";
+export type { TokenContextListener, TokenContextStore } from "./store";
 
 export * from "./constants";
-export { decodeServerHeader } from "./headers/server";
+export { decodeServerHeader, negotiateProtocolVersion } from "./headers/server";
+export { createEmptyContext } from "./context";
+export { createTokenContextStore } from "./store";
+export { TOKEN_CONTEXT_ELEMENT_ID, TOKEN_CONTEXT_META_NAME } from "./bootstrap";
+export {
+  parseTokenContext,
+  readTokenContext,
+  readWelcomeHeader,
+  fetchWelcomeHeader,
+  applyTokenContext,
+  bindTokenContext,
+} from "./dom";
+export { ZEROAD_ELEMENT_MARKERS } from "./html";
+
+let pageStore: TokenContextStore | undefined;
+
+/**
+ * Store holding the current page's token context, initialized from the server bootstrap on first use.
+ */
+export function getTokenContextStore(): TokenContextStore {
+  pageStore ??= createTokenContextStore((typeof document !== "undefined" && readTokenContext(document)) || undefined);
+
+  return pageStore;
+}
+
+export const getTokenContext = (): TokenContext => getTokenContextStore().get();
+
+export const subscribeTokenContext = (listener: TokenContextListener) => getTokenContextStore().subscribe(listener);
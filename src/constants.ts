@@ -38,6 +38,24 @@ export enum CLIENT_HEADER {
 
 export enum PROTOCOL_VERSION {
   V_1 = 1,
+  V_2 = 2, // Adds a key id, issued-at, 64-bit expiry and extensions
 }
 
+/**
+ * Version announced in the welcome header and used to mint tokens by default. Stays at V1 so clients
+ * and sites running older releases keep accepting the welcome header, V2 tokens are parsed regardless.
+ */
 export const CURRENT_PROTOCOL_VERSION = PROTOCOL_VERSION.V_1;
+
+/**
+ * Tags of the V2 extension section. Parsers skip tags they don't know, so new claims can be added
+ * without a version bump as long as ignoring them is safe.
+ */
+export enum CLIENT_HEADER_EXTENSION {
+  CLIENT_ID = 1, // UTF-8, the audience of a developer token
+}
+
+export const SUPPORTED_PROTOCOL_VERSIONS: ReadonlyArray<PROTOCOL_VERSION> = Object.freeze([
+  PROTOCOL_VERSION.V_1,
+  PROTOCOL_VERSION.V_2,
+]);
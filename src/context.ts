@@ -0,0 +1,50 @@
+import { FEATURE } from "./constants";
+
+export type FEATURE_ACTION =
+  | "HIDE_ADVERTISEMENTS"
+  | "HIDE_COOKIE_CONSENT_SCREEN"
+  | "HIDE_MARKETING_DIALOGS"
+  | "DISABLE_NON_FUNCTIONAL_TRACKING"
+  | "DISABLE_CONTENT_PAYWALL"
+  | "ENABLE_SUBSCRIPTION_ACCESS";
+
+export type TokenContext = Record<FEATURE_ACTION, boolean>;
+
+export const FEATURE_TO_ACTIONS: Readonly<Record<FEATURE, ReadonlyArray<FEATURE_ACTION>>> = Object.freeze({
+  [FEATURE.CLEAN_WEB]: Object.freeze([
+    "HIDE_ADVERTISEMENTS" as const,
+    "HIDE_COOKIE_CONSENT_SCREEN" as const,
+    "HIDE_MARKETING_DIALOGS" as const,
+    "DISABLE_NON_FUNCTIONAL_TRACKING" as const,
+  ] as FEATURE_ACTION[]),
+  [FEATURE.ONE_PASS]: Object.freeze([
+    "DISABLE_CONTENT_PAYWALL" as const,
+    "ENABLE_SUBSCRIPTION_ACCESS" as const,
+  ] as FEATURE_ACTION[]),
+} as Record<FEATURE, ReadonlyArray<FEATURE_ACTION>>);
+
+const EMPTY_CONTEXT: TokenContext = Object.freeze({
+  HIDE_ADVERTISEMENTS: false,
+  HIDE_COOKIE_CONSENT_SCREEN: false,
+  HIDE_MARKETING_DIALOGS: false,
+  DISABLE_NON_FUNCTIONAL_TRACKING: false,
+  DISABLE_CONTENT_PAYWALL: false,
+  ENABLE_SUBSCRIPTION_ACCESS: false,
+}) as TokenContext;
+
+export function createEmptyContext(): TokenContext {
+  return EMPTY_CONTEXT;
+}
+
+/**
+ * Token context with every action of `features` enabled, e.g. to preview or audit pages.
+ */
+export function createFeatureContext(features: FEATURE[]): TokenContext {
+  const context = { ...EMPTY_CONTEXT };
+
+  for (const feature of features) {
+    for (const action of FEATURE_TO_ACTIONS[feature] ?? []) context[action] = true;
+  }
+
+  return context;
+}
@@ -1,5 +1,6 @@
 import { Buffer } from "node:buffer";
 import {
+  createHmac,
   createPrivateKey,
   createPublicKey,
   sign as nodeSign,
@@ -8,6 +9,7 @@ import {
   generateKeyPairSync,
   KeyObject,
 } from "node:crypto";
+import type { CryptoBackend } from "./backend";
 
 const keyCache = new Map<string, KeyObject>();
 
@@ -45,6 +47,10 @@ export function verify(data: ArrayBuffer, signature: ArrayBuffer, publicKey: str
   });
 }
 
+export function hmac(data: ArrayBuffer, secret: string): Promise<Uint8Array> {
+  return Promise.resolve(new Uint8Array(createHmac("sha256", secret).update(Buffer.from(data)).digest()));
+}
+
 export const nonce = (size: number) => new Uint8Array(randomBytes(size));
 
 function importPrivateKey(privateKeyBase64: string) {
@@ -72,3 +78,12 @@ function importPublicKey(publicKeyBase64: string) {
   keyCache.set(publicKeyBase64, key);
   return key;
 }
+
+export const nodeCryptoBackend: CryptoBackend = {
+  name: "node",
+  generateKeys,
+  sign,
+  verify,
+  nonce,
+  hmac,
+};
@@ -0,0 +1,95 @@
+import { SERVER_HEADER } from "./constants";
+import { TOKEN_CONTEXT_ELEMENT_ID, TOKEN_CONTEXT_META_NAME, WELCOME_META_NAME } from "./bootstrap";
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "./context";
+import { decodeServerHeader, WelcomeHeader } from "./headers/server";
+import { ZEROAD_ELEMENT_MARKERS } from "./html";
+import type { TokenContextStore } from "./store";
+import { log } from "./logger";
+
+const HIDDEN_MARKER = "data-zeroad-hidden"; // Set on elements hidden by `applyTokenContext()`
+
+/**
+ * Parses a serialized token context; unknown keys are dropped and missing actions are disabled.
+ */
+export function parseTokenContext(json: string | null | undefined): TokenContext | undefined {
+  if (!json) return;
+
+  try {
+    const value = JSON.parse(json);
+    if (!value || typeof value !== "object") throw new Error("Expected a JSON object");
+
+    const tokenContext = { ...createEmptyContext() };
+    for (const action of Object.keys(tokenContext) as FEATURE_ACTION[]) tokenContext[action] = value[action] === true;
+
+    return tokenContext;
+  } catch (err) {
+    log("warn", "TOKEN_CONTEXT_INVALID", { reason: (err as Error)?.message });
+  }
+}
+
+const metaContent = (doc: Document, name: string) =>
+  doc.querySelector(`meta[name="${name}"]`)?.getAttribute("content") ?? undefined;
+
+/**
+ * Reads the token context rendered by `renderTokenContextScript()` or `renderTokenContextMeta()` on the server.
+ */
+export function readTokenContext(doc: Document = document): TokenContext | undefined {
+  const script = doc.getElementById(TOKEN_CONTEXT_ELEMENT_ID);
+  return parseTokenContext(script ? script.textContent : metaContent(doc, TOKEN_CONTEXT_META_NAME));
+}
+
+/**
+ * Reads the welcome header from a fetch `Response`/`Headers`, or its meta tag equivalent in a document.
+ */
+export function readWelcomeHeader(source: Document | Response | Headers = document): WelcomeHeader | undefined {
+  if ("headers" in source) return decodeServerHeader(source.headers.get(SERVER_HEADER.WELCOME));
+  if ("get" in source) return decodeServerHeader(source.get(SERVER_HEADER.WELCOME));
+
+  return decodeServerHeader(metaContent(source, WELCOME_META_NAME));
+}
+
+/**
+ * Fetches the welcome header of the current page (or `url`) with a `HEAD` request, since
+ * the headers of the document itself are not exposed to scripts.
+ */
+export async function fetchWelcomeHeader(url: string = location.href): Promise<WelcomeHeader | undefined> {
+  const response = await fetch(url, { method: "HEAD", credentials: "same-origin" });
+  return readWelcomeHeader(response);
+}
+
+/**
+ * Hides `data-zeroad` marked elements whose action is enabled, and shows the ones it hid before
+ * once the action is disabled again.
+ */
+export function applyTokenContext(tokenContext: TokenContext, root: ParentNode = document): void {
+  root.querySelectorAll<HTMLElement>("[data-zeroad]").forEach((element) => {
+    const markers = (element.getAttribute("data-zeroad") ?? "").toLowerCase().split(/\s+/);
+    const hide = markers.some((marker) => tokenContext[ZEROAD_ELEMENT_MARKERS[marker]]);
+
+    if (hide) {
+      element.hidden = true;
+      element.setAttribute(HIDDEN_MARKER, "");
+    } else if (element.hasAttribute(HIDDEN_MARKER)) {
+      element.hidden = false;
+      element.removeAttribute(HIDDEN_MARKER);
+    }
+  });
+}
+
+/**
+ * Keeps `data-zeroad` elements under `root` in sync with the store, including elements added later.
+ * Returns a function that stops syncing.
+ */
+export function bindTokenContext(store: TokenContextStore, root: ParentNode = document): () => void {
+  const apply = () => applyTokenContext(store.get(), root);
+  apply();
+
+  const unsubscribe = store.subscribe(apply);
+  const observer = typeof MutationObserver === "function" ? new MutationObserver(apply) : undefined;
+  observer?.observe(root as Node, { childList: true, subtree: true });
+
+  return () => {
+    unsubscribe();
+    observer?.disconnect();
+  };
+}
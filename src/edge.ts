@@ -0,0 +1,60 @@
+import {
+  LOG_EVENTS,
+  createJsonLinesSink,
+  createLogger,
+  createPinoSink,
+  createWinstonSink,
+  setLogLevel,
+  setLogSink,
+  setLogTransport,
+} from "./logger";
+import { setCryptoBackend } from "./backend";
+import { webCryptoBackend } from "./webcrypto";
+import { ZEROAD_NETWORK_TRUSTED_KEYS } from "./keys";
+import { Site } from "./site";
+
+export type * from "./constants";
+export type * from "./backend";
+export type * from "./keys";
+export type * from "./headers/server";
+export type * from "./headers/client";
+export type * from "./headers/client/cache";
+export type * from "./headers/forwarded";
+export type { SiteOptions, SiteInstance, SiteRoute, SiteRequestScope } from "./site";
+export type { PathPattern } from "./paths";
+export type * from "./guard";
+export type * from "./html";
+export type * from "./audit";
+export type * from "./bootstrap";
+export type * from "./replay";
+export type * from "./metrics";
+export type * from "./logger";
+
+export * from "./constants";
+export * from "./headers/server";
+export * from "./headers/client";
+export * from "./headers/client/cache";
+export * from "./headers/forwarded";
+export * from "./guard";
+export * from "./html";
+export { AUDIT_HOSTS, auditHtml, createComplianceAuditor } from "./audit";
+export {
+  TOKEN_CONTEXT_ELEMENT_ID,
+  TOKEN_CONTEXT_META_NAME,
+  serializeTokenContext,
+  renderTokenContextScript,
+  renderTokenContextMeta,
+} from "./bootstrap";
+export { createMemoryReplayStore, createReplayMonitor } from "./replay";
+export {
+  DEFAULT_LATENCY_BUCKETS,
+  createMetricsCollector,
+  createOpenTelemetryRecorder,
+  formatPrometheus,
+} from "./metrics";
+
+export { setLogLevel, setLogTransport, setLogSink, createLogger, LOG_EVENTS };
+export { createJsonLinesSink, createPinoSink, createWinstonSink };
+export { setCryptoBackend, webCryptoBackend };
+export { ZEROAD_NETWORK_TRUSTED_KEYS };
+export { Site };
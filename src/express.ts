@@ -0,0 +1,128 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "./headers/client";
+import { appendVary, createPathFilter, pathOf, resolveSite, ZeroAdOptions } from "./middleware";
+import { CLIENT_HEADER } from "./constants";
+import { checkFeatureActions, createDenialResponse, FeatureGuardDenial, FeatureGuardOptions } from "./guard";
+import { auditLater, ComplianceAuditor, isAuditedContext, isHtmlContentType } from "./audit";
+import { setCryptoBackend } from "./backend";
+import { nodeCryptoBackend } from "./crypto";
+
+// Same default as the main entry point, without pulling it into the adapter bundle
+setCryptoBackend(nodeCryptoBackend);
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      tokenContext: TokenContext;
+    }
+
+    interface Locals {
+      tokenContext: TokenContext;
+    }
+  }
+}
+
+type Request = IncomingMessage & { originalUrl?: string; tokenContext?: TokenContext };
+type Response = ServerResponse & { locals?: Record<string, unknown> };
+type NextFunction = (err?: unknown) => void;
+
+/**
+ * Express (or any `(req, res, next)` style) middleware: sends the welcome header, adds
+ * `Vary: X-Better-Web-Hello` and attaches the parsed `tokenContext` to `req` and `res.locals`.
+ * Requests filtered out by `include`/`exclude` get an empty context and no headers.
+ */
+export function zeroAd(options: ZeroAdOptions) {
+  const site = resolveSite(options);
+  const isIncluded = createPathFilter(options);
+
+  return function zeroAdMiddleware(req: Request, res: Response, next: NextFunction) {
+    const attach = (tokenContext: TokenContext) => {
+      req.tokenContext = tokenContext;
+      res.locals ??= {};
+      res.locals.tokenContext = tokenContext;
+
+      if (options.audit && isAuditedContext(tokenContext)) auditBody(options.audit, req, res, tokenContext);
+      next();
+    };
+
+    // `req.url` and `req.path` are relative to the mount point of the middleware
+    const path = pathOf(req.originalUrl ?? req.url);
+    if (!isIncluded(path)) {
+      return attach(createEmptyContext());
+    }
+
+    const scope = site.forRequest(path);
+    res.setHeader(scope.SERVER_HEADER_NAME, scope.SERVER_HEADER_VALUE);
+    res.setHeader("Vary", appendVary(res.getHeader("Vary")?.toString(), CLIENT_HEADER.HELLO));
+
+    scope.parseClientToken(req.headers[site.CLIENT_HEADER_NAME]).then(attach, next);
+  };
+}
+
+/**
+ * Tees everything written to `res` (up to `auditor.maxBytes`) and audits it once the response ends.
+ */
+function auditBody(auditor: ComplianceAuditor, req: Request, res: Response, tokenContext: TokenContext) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  const collect = (chunk: unknown, encoding: unknown) => {
+    if (size >= auditor.maxBytes || (typeof chunk !== "string" && !(chunk instanceof Uint8Array))) return;
+
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk, encoding as BufferEncoding | undefined) : chunk;
+    chunks.push(Buffer.from(buffer));
+    size += buffer.length;
+  };
+
+  const { write, end } = res;
+
+  res.write = function (this: Response, chunk: unknown, ...args: unknown[]) {
+    collect(chunk, args[0]);
+    return (write as (...args: unknown[]) => boolean).call(this, chunk, ...args);
+  } as typeof res.write;
+
+  res.end = function (this: Response, chunk?: unknown, ...args: unknown[]) {
+    collect(chunk, args[0]);
+
+    // Compressed bodies are skipped, their bytes aren't markup
+    if (isHtmlContentType(res.getHeader("Content-Type")?.toString()) && !res.getHeader("Content-Encoding")) {
+      auditLater(auditor, () => Buffer.concat(chunks).toString("utf8"), tokenContext, req.originalUrl ?? req.url);
+    }
+
+    return (end as (...args: unknown[]) => Response).call(this, chunk, ...args);
+  } as typeof res.end;
+}
+
+export type ExpressDenialCallback = (
+  denial: FeatureGuardDenial,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => void;
+
+/**
+ * Route guard middleware: calls `next()` when `req.tokenContext` enables the required actions
+ * (all of them, or any with `mode: "any"`), otherwise answers with the `deny` strategy.
+ */
+export function requireFeatures(
+  actions: FEATURE_ACTION | FEATURE_ACTION[],
+  options: FeatureGuardOptions<ExpressDenialCallback> = {}
+) {
+  return function zeroAdRequireFeatures(req: Request, res: Response, next: NextFunction) {
+    const denial = checkFeatureActions(req.tokenContext, actions, options.mode);
+    if (!denial) return next();
+
+    if (typeof options.deny === "function") return options.deny(denial, req, res, next);
+
+    const { status, headers, body } = createDenialResponse(denial, options.deny);
+    res.statusCode = status;
+    for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+    res.end(body);
+  };
+}
+
+export type { ZeroAdOptions, PathPattern } from "./middleware";
+export type { AuditFinding, AuditReport, ComplianceAuditor } from "./audit";
+export type { FeatureGuardDenial, FeatureGuardOptions, GuardMode, JsonDenial, RedirectDenial } from "./guard";
+export type { TokenContext, FEATURE_ACTION } from "./headers/client";
@@ -0,0 +1,125 @@
+import type { FastifyPluginCallback, FastifyReply, FastifyRequest } from "fastify";
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "./headers/client";
+import { appendVary, createPathFilter, pathOf, resolveSite, ZeroAdOptions } from "./middleware";
+import { CLIENT_HEADER } from "./constants";
+import { checkFeatureActions, createDenialResponse, FeatureGuardDenial, FeatureGuardOptions } from "./guard";
+import { auditLater, isAuditedContext, isHtmlContentType } from "./audit";
+import { setCryptoBackend } from "./backend";
+import { nodeCryptoBackend } from "./crypto";
+
+// Same default as the main entry point, without pulling it into the adapter bundle
+setCryptoBackend(nodeCryptoBackend);
+
+declare module "fastify" {
+  interface FastifyRequest {
+    tokenContext: TokenContext;
+  }
+
+  interface FastifyContextConfig {
+    zeroAd?: boolean; // Set to `false` to opt a route out of token parsing and the welcome header
+  }
+}
+
+/**
+ * Fastify plugin: sends the welcome header, adds `Vary: X-Better-Web-Hello` and decorates
+ * `request.tokenContext` in an `onRequest` hook. Routes registered with `config: { zeroAd: false }`
+ * or filtered out by `include`/`exclude` get an empty context and no headers.
+ */
+export const zeroAdPlugin: FastifyPluginCallback<ZeroAdOptions> = (fastify, options, done) => {
+  const site = resolveSite(options);
+  const isIncluded = createPathFilter(options);
+
+  fastify.decorateRequest("tokenContext", null as unknown as TokenContext);
+
+  fastify.addHook("onRequest", async (request, reply) => {
+    const path = pathOf(request.url);
+    if (request.routeOptions.config?.zeroAd === false || !isIncluded(path)) {
+      request.tokenContext = createEmptyContext();
+      return;
+    }
+
+    const scope = site.forRequest(path);
+    reply.header(scope.SERVER_HEADER_NAME, scope.SERVER_HEADER_VALUE);
+    reply.header("Vary", appendVary(reply.getHeader("Vary")?.toString(), CLIENT_HEADER.HELLO));
+
+    request.tokenContext = await scope.parseClientToken(request.headers[site.CLIENT_HEADER_NAME]);
+  });
+
+  const { audit } = options;
+  if (audit) {
+    // Only string and Buffer payloads are audited, streams and compressed payloads are sent untouched
+    fastify.addHook("onSend", async (request, reply, payload) => {
+      const isBody = typeof payload === "string" || payload instanceof Uint8Array;
+
+      if (
+        isBody &&
+        isAuditedContext(request.tokenContext) &&
+        isHtmlContentType(reply.getHeader("Content-Type")?.toString()) &&
+        !reply.getHeader("Content-Encoding")
+      ) {
+        auditLater(audit, () => Buffer.from(payload).toString("utf8"), request.tokenContext, request.url);
+      }
+
+      return payload;
+    });
+  }
+
+  done();
+};
+
+// Same as wrapping with `fastify-plugin`: the hook and decorator apply outside of the plugin's scope
+Object.assign(zeroAdPlugin, {
+  [Symbol.for("skip-override")]: true,
+  [Symbol.for("fastify.display-name")]: "@zeroad.network/token",
+});
+
+export type FastifyDenialCallback = (
+  denial: FeatureGuardDenial,
+  request: FastifyRequest,
+  reply: FastifyReply
+) => unknown;
+
+/**
+ * Route `preHandler` that lets the request through when `request.tokenContext` enables the required
+ * actions (all of them, or any with `mode: "any"`), otherwise answers with the `deny` strategy.
+ */
+export function requireFeatures(
+  actions: FEATURE_ACTION | FEATURE_ACTION[],
+  options: FeatureGuardOptions<FastifyDenialCallback> = {}
+) {
+  return async function zeroAdRequireFeatures(request: FastifyRequest, reply: FastifyReply) {
+    const denial = checkFeatureActions(request.tokenContext, actions, options.mode);
+    if (!denial) return;
+
+    if (typeof options.deny === "function") return options.deny(denial, request, reply);
+
+    const { status, headers, body } = createDenialResponse(denial, options.deny);
+    return reply.code(status).headers(headers).send(body);
+  };
+}
+
+export type RequireFeatureActionOptions = {
+  body?: ((request: FastifyRequest) => unknown) | object | string; // Sent with the 403 response
+};
+
+const DEFAULT_FORBIDDEN_BODY = (action: FEATURE_ACTION) => ({
+  error: "Forbidden",
+  message: "A Zero Ad Network subscription is required to access this resource",
+  action,
+});
+
+/**
+ * Route `preHandler` that replies 403 unless `request.tokenContext[action]` is enabled.
+ */
+export function requireFeatureAction(action: FEATURE_ACTION, options: RequireFeatureActionOptions = {}) {
+  const { body = DEFAULT_FORBIDDEN_BODY(action) } = options;
+
+  return requireFeatures(action, {
+    deny: (_denial, request, reply) => reply.code(403).send(typeof body === "function" ? body(request) : body),
+  });
+}
+
+export type { ZeroAdOptions, PathPattern } from "./middleware";
+export type { AuditFinding, AuditReport, ComplianceAuditor } from "./audit";
+export type { TokenContext, FEATURE_ACTION } from "./headers/client";
+export type { FeatureGuardDenial, FeatureGuardOptions, GuardMode, JsonDenial, RedirectDenial } from "./guard";
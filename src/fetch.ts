@@ -0,0 +1,93 @@
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "./headers/client";
+import { appendVary, createPathFilter, resolveSite, ZeroAdOptions } from "./middleware";
+import { CLIENT_HEADER } from "./constants";
+import type { SiteRequestScope } from "./site";
+import { checkFeatureActions, createDenialResponse, FeatureGuardDenial, FeatureGuardOptions } from "./guard";
+
+export type FetchHandler<Args extends unknown[] = unknown[]> = (
+  request: Request,
+  tokenContext: TokenContext,
+  ...args: Args
+) => Response | Promise<Response>;
+
+/**
+ * Adds the welcome and `Vary` headers to `response`. Responses with immutable headers
+ * (e.g. from `fetch()` or `Response.redirect()`) are copied first.
+ */
+export function setWelcomeHeaders(
+  response: Response,
+  site: Pick<SiteRequestScope, "SERVER_HEADER_NAME" | "SERVER_HEADER_VALUE">
+): Response {
+  const apply = (headers: Headers) => {
+    headers.set(site.SERVER_HEADER_NAME, site.SERVER_HEADER_VALUE);
+    headers.set("Vary", appendVary(headers.get("Vary") ?? undefined, CLIENT_HEADER.HELLO));
+  };
+
+  try {
+    apply(response.headers);
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    apply(copy.headers);
+
+    return copy;
+  }
+}
+
+/**
+ * Wraps a Web-standard `(request) => Response` handler, as used by `Bun.serve`, `Deno.serve` and
+ * edge runtimes: the parsed `TokenContext` is passed as the second argument, followed by any extra
+ * arguments of the runtime (server, env, execution context, ...). Requests filtered out by
+ * `include`/`exclude` get an empty context and no headers.
+ */
+export function withZeroAd<Args extends unknown[]>(
+  handler: FetchHandler<Args>,
+  options: ZeroAdOptions
+): (request: Request, ...args: Args) => Promise<Response> {
+  const site = resolveSite(options);
+  const isIncluded = createPathFilter(options);
+
+  return async (request, ...args) => {
+    const path = new URL(request.url).pathname;
+    if (!isIncluded(path)) {
+      return handler(request, createEmptyContext(), ...args);
+    }
+
+    const scope = site.forRequest(path);
+    const tokenContext = await scope.parseClientToken(request.headers.get(site.CLIENT_HEADER_NAME) ?? undefined);
+    const response = setWelcomeHeaders(await handler(request, tokenContext, ...args), scope);
+
+    return options.audit ? options.audit.auditResponse(response, tokenContext, request.url) : response;
+  };
+}
+
+export type FetchDenialCallback = (
+  denial: FeatureGuardDenial,
+  request: Request,
+  tokenContext: TokenContext
+) => Response | Promise<Response>;
+
+/**
+ * Guards a `withZeroAd()` handler: it only runs when the token context enables the required actions
+ * (all of them, or any with `mode: "any"`), otherwise the `deny` strategy builds the response.
+ */
+export function requireFeatures<Args extends unknown[]>(
+  actions: FEATURE_ACTION | FEATURE_ACTION[],
+  handler: FetchHandler<Args>,
+  options: FeatureGuardOptions<FetchDenialCallback> = {}
+): FetchHandler<Args> {
+  return (request, tokenContext, ...args) => {
+    const denial = checkFeatureActions(tokenContext, actions, options.mode);
+    if (!denial) return handler(request, tokenContext, ...args);
+
+    if (typeof options.deny === "function") return options.deny(denial, request, tokenContext);
+
+    const { status, headers, body } = createDenialResponse(denial, options.deny);
+    return new Response(body ?? null, { status, headers });
+  };
+}
+
+export type { ZeroAdOptions, PathPattern } from "./middleware";
+export type { AuditFinding, AuditReport, ComplianceAuditor } from "./audit";
+export type { FeatureGuardDenial, FeatureGuardOptions, GuardMode, JsonDenial, RedirectDenial } from "./guard";
+export type { TokenContext, FEATURE_ACTION } from "./headers/client";
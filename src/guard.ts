@@ -0,0 +1,84 @@
+import type { FEATURE_ACTION, TokenContext } from "./headers/client";
+
+export type GuardMode = "all" | "any";
+
+export type FeatureGuardDenial = {
+  mode: GuardMode;
+  required: FEATURE_ACTION[];
+  missing: FEATURE_ACTION[]; // With mode "any", every required action is missing
+};
+
+export type JsonDenial = {
+  status?: 402 | 403; // Defaults to 403
+  body?: object | ((denial: FeatureGuardDenial) => object);
+};
+
+export type RedirectDenial = {
+  redirect: string | ((denial: FeatureGuardDenial) => string); // e.g. a subscribe page
+  status?: 302 | 303 | 307; // Defaults to 302
+};
+
+/**
+ * How a denied request is answered: a JSON body, a redirect, or a framework-specific callback
+ * receiving the denial followed by the framework's request/response arguments.
+ */
+export type DenialStrategy<Callback> = JsonDenial | RedirectDenial | Callback;
+
+export type FeatureGuardOptions<Callback> = {
+  mode?: GuardMode; // Defaults to "all"
+  deny?: DenialStrategy<Callback>;
+};
+
+export type DenialResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body?: string;
+};
+
+const toArray = (actions: FEATURE_ACTION | ReadonlyArray<FEATURE_ACTION>) =>
+  typeof actions === "string" ? [actions] : [...actions];
+
+/**
+ * Checks `tokenContext` against the required actions, returning a denial or `undefined` when allowed.
+ * A missing context (e.g. the middleware didn't run) denies every action.
+ */
+export function checkFeatureActions(
+  tokenContext: TokenContext | undefined,
+  actions: FEATURE_ACTION | ReadonlyArray<FEATURE_ACTION>,
+  mode: GuardMode = "all"
+): FeatureGuardDenial | undefined {
+  const required = toArray(actions);
+  const missing = required.filter((action) => !tokenContext?.[action]);
+
+  const allowed = mode === "all" ? !missing.length : missing.length < required.length;
+  return allowed ? undefined : { mode, required, missing };
+}
+
+/**
+ * Builds the framework-neutral response for a JSON or redirect denial strategy.
+ */
+export function createDenialResponse(
+  denial: FeatureGuardDenial,
+  strategy: JsonDenial | RedirectDenial = {}
+): DenialResponse {
+  if ("redirect" in strategy) {
+    const location = typeof strategy.redirect === "function" ? strategy.redirect(denial) : strategy.redirect;
+    return { status: strategy.status ?? 302, headers: { Location: location } };
+  }
+
+  const status = strategy.status ?? 403;
+  const body =
+    typeof strategy.body === "function"
+      ? strategy.body(denial)
+      : (strategy.body ?? {
+          error: status === 402 ? "Payment Required" : "Forbidden",
+          message: "A Zero Ad Network subscription is required to access this resource",
+          ...denial,
+        });
+
+  return {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    body: JSON.stringify(body),
+  };
+}
@@ -1,5 +1,8 @@
-import { DecodedClientHeader } from ".";
-import { log } from "../../logger";
+import { ClientTokenStatus, DecodedClientHeader } from ".";
+import type { VerifiedKey } from "../../keys";
+import { createFrequencyIndex, FrequencyNode } from "./lfu";
+import { defaultLogger, log, Logger } from "../../logger";
+import type { CacheEvictionReason, MetricsRecorder } from "../../metrics";
 
 export interface CacheConfig {
   enabled: boolean;
@@ -15,7 +18,7 @@ const DEFAULT_CACHE_CONFIG: CacheConfig = {
 
 export let cacheConfig: CacheConfig = { ...DEFAULT_CACHE_CONFIG };
 
-export function configureCaching(config: Partial<CacheConfig>): void {
+function validateCacheConfig(config: Partial<CacheConfig>): void {
   if (config.ttl !== undefined && config.ttl < 0) {
     throw new Error("Cache TTL must be >= 0");
   }
@@ -23,53 +26,334 @@ export function configureCaching(config: Partial<CacheConfig>): void {
   if (config.maxSize !== undefined && config.maxSize < 1) {
     throw new Error("Cache maxSize must be >= 1");
   }
+}
 
+export function configureCaching(config: Partial<CacheConfig>): void {
+  validateCacheConfig(config);
   cacheConfig = { ...cacheConfig, ...config };
 
   if (!cacheConfig.enabled) {
-    headerCache.clear();
+    globalMemoryStore.clear();
   }
 
   trimCache();
-  log("debug", "Cache configuration updated", cacheConfig);
+  log("debug", "CACHE_CONFIGURED", cacheConfig);
 }
 
 export function getCacheConfig(): Readonly<CacheConfig> {
   return { ...cacheConfig };
 }
 
-interface CacheEntry {
+export type TokenCacheEntry = {
   data: DecodedClientHeader | undefined;
+  status?: ClientTokenStatus; // Decoding outcome, tells why `data` is missing
+  verifiedKey?: VerifiedKey; // The trusted key that verified `data`
   effectiveExpiry: number; // `min()` of cache TTL expiry and token `expiresAt`
-  accessCount: number;
-  timestamp: number;
+};
+
+/**
+ * Storage for decoded client tokens, keyed by the trusted public keys and the raw `X-Better-Web-Hello` header value.
+ * Every method may return a Promise, so implementations can be backed by shared stores (Redis, Memcached, etc.).
+ */
+export interface TokenCacheStore {
+  get(key: string): TokenCacheEntry | undefined | Promise<TokenCacheEntry | undefined>;
+  set(key: string, entry: TokenCacheEntry, ttl: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+  size?(): number;
+}
+
+interface CacheEntry extends TokenCacheEntry, FrequencyNode {
+  timestamp: number; // Last access time
 }
 
 export const headerCache = new Map<string, CacheEntry>();
 
-export function trimCache(): void {
-  if (headerCache.size <= cacheConfig.maxSize) return;
+type MemoryCacheStore = TokenCacheStore & {
+  size(): number;
+  trim(): void;
+  cleanExpired(now: number): void;
+};
+
+// Upper bound of expired entries removed per insert, keeps `set()` O(1) amortized
+const EXPIRY_SWEEP_LIMIT = 8;
 
-  const entriesToRemove = headerCache.size - cacheConfig.maxSize;
-  const entries = Array.from(headerCache.entries());
+/**
+ * Entries are evicted LFU first, least recently used among equal access counts, in O(1).
+ * Expired entries are dropped lazily on read and swept from the oldest insert on write.
+ */
+function createMemoryCacheStore(
+  entries: Map<string, CacheEntry>,
+  getMaxSize: () => number,
+  onEvict?: (reason: CacheEvictionReason) => void
+): MemoryCacheStore {
+  const index = createFrequencyIndex();
 
-  // Sort by access count (LFU) and timestamp (LRU) - remove least valuable
-  entries.sort((a, b) => {
-    if (a[1].accessCount !== b[1].accessCount) {
-      return a[1].accessCount - b[1].accessCount;
+  function remove(entry: CacheEntry) {
+    entries.delete(entry.key);
+    index.remove(entry);
+  }
+
+  function trim() {
+    const maxSize = getMaxSize();
+
+    while (entries.size > maxSize) {
+      const node = index.pop();
+      if (!node) break;
+
+      // Skip nodes left behind if `headerCache` was modified directly
+      if (entries.get(node.key) === node) {
+        entries.delete(node.key);
+        onEvict?.("capacity");
+      }
     }
-    return a[1].timestamp - b[1].timestamp;
-  });
+  }
 
-  for (let i = 0; i < entriesToRemove; i++) {
-    headerCache.delete(entries[i][0]);
+  function sweepExpired(now: number, limit: number) {
+    // `Map` iterates in insertion order, so the oldest entries come first
+    for (const entry of entries.values()) {
+      if (entry.effectiveExpiry > now || limit-- <= 0) break;
+      remove(entry);
+      onEvict?.("expired");
+    }
   }
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+
+      if (entry) {
+        entry.timestamp = Date.now();
+        index.touch(entry);
+      }
+
+      return entry;
+    },
+
+    set(key, value) {
+      const now = Date.now();
+      const existing = entries.get(key);
+      if (existing) remove(existing);
+
+      const entry: CacheEntry = { ...value, key, accessCount: 1, timestamp: now };
+      entries.set(key, entry);
+      index.add(entry);
+
+      sweepExpired(now, EXPIRY_SWEEP_LIMIT);
+      trim();
+    },
+
+    delete(key) {
+      const entry = entries.get(key);
+      if (entry) remove(entry);
+    },
+
+    clear() {
+      entries.clear();
+      index.clear();
+    },
+
+    size() {
+      return entries.size;
+    },
+
+    trim,
+
+    cleanExpired(now) {
+      for (const entry of entries.values()) {
+        if (entry.effectiveExpiry <= now) remove(entry);
+      }
+    },
+  };
+}
+
+/**
+ * Default in-process store backed by `headerCache`, trimmed with LFU+LRU eviction.
+ * Mutate it through the store, changing `headerCache` directly leaves the eviction index out of sync.
+ */
+const globalMemoryStore = createMemoryCacheStore(headerCache, () => cacheConfig.maxSize);
+export const memoryCacheStore: TokenCacheStore = globalMemoryStore;
+
+export function trimCache(): void {
+  globalMemoryStore.trim();
 }
 
 export function cleanExpiredEntries(now: number): void {
-  for (const [key, entry] of headerCache.entries()) {
-    if (entry.effectiveExpiry <= now) {
-      headerCache.delete(key);
-    }
+  globalMemoryStore.cleanExpired(now);
+}
+
+let customCacheStore: TokenCacheStore | undefined;
+
+/**
+ * Replace the default in-memory store for the global cache and for every `Site` without its own `cacheStore`.
+ */
+export function setCacheStore(store: TokenCacheStore): void {
+  customCacheStore = store === memoryCacheStore ? undefined : store;
+}
+
+export function getCacheStore(): TokenCacheStore {
+  return customCacheStore ?? memoryCacheStore;
+}
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  size?: number; // Only known for stores that can report it (e.g. the in-memory one)
+};
+
+/**
+ * A cache of decoded client tokens with its own configuration, store and stats.
+ */
+export type TokenCache = {
+  configure(config: Partial<CacheConfig>): void;
+  getConfig(): Readonly<CacheConfig>;
+  getStats(): CacheStats;
+  clear(): Promise<void>;
+  get(key: string, now: number): Promise<TokenCacheEntry | undefined>;
+  set(key: string, entry: TokenCacheEntry, now: number): Promise<void>;
+  coalesce<T>(key: string, load: () => Promise<T>): Promise<T>;
+};
+
+export type TokenCacheOptions = {
+  config?: Partial<CacheConfig>; // Fields that are not set follow the global `configureCaching()` config
+  store?: TokenCacheStore;
+  metrics?: MetricsRecorder; // Receives hit, miss and eviction events
+  logger?: Logger; // Defaults to the global logger
+};
+
+function buildTokenCache(
+  overrides: Partial<CacheConfig>,
+  ownStore: TokenCacheStore | undefined,
+  createMemoryStore: (getMaxSize: () => number) => MemoryCacheStore,
+  metrics?: MetricsRecorder,
+  logger: Logger = defaultLogger
+): TokenCache {
+  let hits = 0;
+  let misses = 0;
+
+  // Verifications in flight, shared by concurrent callers with the same key
+  const pending = new Map<string, Promise<unknown>>();
+
+  const resolveConfig = () => (Object.keys(overrides).length ? { ...cacheConfig, ...overrides } : cacheConfig);
+  const memoryStore = createMemoryStore(() => resolveConfig().maxSize);
+  const resolveStore = () => ownStore ?? customCacheStore ?? memoryStore;
+
+  return {
+    configure(config) {
+      validateCacheConfig(config);
+      overrides = { ...overrides, ...config };
+
+      if (!resolveConfig().enabled) memoryStore.clear();
+      memoryStore.trim();
+    },
+
+    getConfig() {
+      return { ...resolveConfig() };
+    },
+
+    getStats() {
+      return { hits, misses, size: resolveStore().size?.() };
+    },
+
+    async clear() {
+      hits = 0;
+      misses = 0;
+
+      await resolveStore().clear();
+    },
+
+    async get(key, now) {
+      const store = resolveStore();
+      let cached: TokenCacheEntry | undefined;
+
+      try {
+        cached = await store.get(key);
+      } catch (err) {
+        logger.log("warn", "CACHE_READ_FAILED", { reason: (err as Error)?.message });
+      }
+
+      if (cached && cached.effectiveExpiry > now) {
+        hits++;
+        metrics?.({ type: "cache_hit" });
+        return cached;
+      }
+
+      misses++;
+      metrics?.({ type: "cache_miss" });
+
+      if (cached) {
+        await writeStore(() => store.delete(key), logger);
+        metrics?.({ type: "cache_eviction", reason: "expired" });
+      }
+    },
+
+    async set(key, entry, now) {
+      const store = resolveStore();
+      await writeStore(() => store.set(key, entry, entry.effectiveExpiry - now), logger);
+    },
+
+    coalesce<T>(key: string, load: () => Promise<T>) {
+      let promise = pending.get(key) as Promise<T> | undefined;
+
+      if (!promise) {
+        promise = load().finally(() => pending.delete(key));
+        pending.set(key, promise);
+      }
+
+      return promise;
+    },
+  };
+}
+
+async function writeStore(operation: () => void | Promise<void>, logger: Logger) {
+  try {
+    await operation();
+  } catch (err) {
+    logger.log("warn", "CACHE_WRITE_FAILED", { reason: (err as Error)?.message });
   }
 }
+
+export function createTokenCache(options: TokenCacheOptions = {}): TokenCache {
+  const overrides = { ...options.config };
+  validateCacheConfig(overrides);
+
+  return buildTokenCache(
+    overrides,
+    options.store,
+    (getMaxSize) =>
+      createMemoryCacheStore(new Map(), getMaxSize, (reason) => options.metrics?.({ type: "cache_eviction", reason })),
+    options.metrics,
+    options.logger
+  );
+}
+
+/**
+ * Process-wide cache used by `parseClientToken()` when no `cache` option is given.
+ * Configured through `configureCaching()` and `setCacheStore()`.
+ */
+export const defaultTokenCache: TokenCache = {
+  ...buildTokenCache({}, undefined, () => globalMemoryStore),
+  configure: configureCaching,
+};
+
+/**
+ * Helpers for stores that can only hold strings.
+ */
+export function serializeCacheEntry(entry: TokenCacheEntry): string {
+  return JSON.stringify(entry);
+}
+
+export function deserializeCacheEntry(value: string): TokenCacheEntry {
+  const entry = JSON.parse(value) as TokenCacheEntry;
+
+  return {
+    effectiveExpiry: entry.effectiveExpiry,
+    data: entry.data && {
+      ...entry.data,
+      expiresAt: new Date(entry.data.expiresAt),
+      ...(entry.data.issuedAt && { issuedAt: new Date(entry.data.issuedAt) }),
+    },
+    ...(entry.status && { status: entry.status }),
+    ...(entry.verifiedKey && { verifiedKey: entry.verifiedKey }),
+  };
+}
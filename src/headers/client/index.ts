@@ -1,37 +1,25 @@
-import { PROTOCOL_VERSION, FEATURE, ZEROAD_NETWORK_PUBLIC_KEY } from "../../constants";
-import { cacheConfig, cleanExpiredEntries, headerCache, trimCache } from "./cache";
-import { fromBase64, setFlags, toBase64 } from "../../helpers";
-import { nonce, sign, verify } from "../../crypto";
-import { log } from "../../logger";
+import { TrustedPublicKey, VerifiedKey, verifyWithTrustedKeys, ZEROAD_NETWORK_TRUSTED_KEYS } from "../../keys";
+import { CLIENT_HEADER_EXTENSION, PROTOCOL_VERSION, FEATURE } from "../../constants";
+import { defaultTokenCache, TokenCache } from "./cache";
+import { fromBase64, mergeByteArrays, setFlags, toBase64 } from "../../helpers";
+import { getCryptoBackend } from "../../backend";
+import { defaultLogger, Logger } from "../../logger";
+import { createEmptyContext, FEATURE_ACTION, FEATURE_TO_ACTIONS, TokenContext } from "../../context";
+import type { MetricsRecorder } from "../../metrics";
 
 const VERSION_BYTES = 1;
 const NONCE_BYTES = 4;
 const SEPARATOR = ".";
 const UINT32_BYTES = 4;
+const UINT64_BYTES = 8;
+const KEY_ID_LENGTH_BYTES = 1;
+const EXTENSION_HEADER_BYTES = 3; // Tag (uint8) and value length (uint16)
+const MAX_DATE_SECONDS = 8.64e12; // `new Date()` range
 
-export type FEATURE_ACTION =
-  | "HIDE_ADVERTISEMENTS"
-  | "HIDE_COOKIE_CONSENT_SCREEN"
-  | "HIDE_MARKETING_DIALOGS"
-  | "DISABLE_NON_FUNCTIONAL_TRACKING"
-  | "DISABLE_CONTENT_PAYWALL"
-  | "ENABLE_SUBSCRIPTION_ACCESS";
+export type { FEATURE_ACTION, TokenContext } from "../../context";
+export { createEmptyContext, createFeatureContext } from "../../context";
 
 export type ClientHeaderValue = string | string[] | undefined;
-export type TokenContext = Record<FEATURE_ACTION, boolean>;
-
-const FEATURE_TO_ACTIONS: Readonly<Record<FEATURE, ReadonlyArray<FEATURE_ACTION>>> = Object.freeze({
-  [FEATURE.CLEAN_WEB]: Object.freeze([
-    "HIDE_ADVERTISEMENTS" as const,
-    "HIDE_COOKIE_CONSENT_SCREEN" as const,
-    "HIDE_MARKETING_DIALOGS" as const,
-    "DISABLE_NON_FUNCTIONAL_TRACKING" as const,
-  ] as FEATURE_ACTION[]),
-  [FEATURE.ONE_PASS]: Object.freeze([
-    "DISABLE_CONTENT_PAYWALL" as const,
-    "ENABLE_SUBSCRIPTION_ACCESS" as const,
-  ] as FEATURE_ACTION[]),
-} as Record<FEATURE, ReadonlyArray<FEATURE_ACTION>>);
 
 const FEATURE_NUMBERS = Object.freeze([FEATURE.CLEAN_WEB, FEATURE.ONE_PASS] as const);
 
@@ -39,67 +27,139 @@ export type ParseClientTokenOptions = {
   clientId: string;
   features: FEATURE[];
   publicKey?: string;
+  publicKeys?: ReadonlyArray<TrustedPublicKey>; // Takes precedence over `publicKey`
+  keyId?: string; // Hint for which of the `publicKeys` to try first
   bypassCache?: boolean; // Allow per-call cache bypass
+  cache?: TokenCache; // Defaults to the process-wide cache configured with `configureCaching()`
+  metrics?: MetricsRecorder; // Receives parse and verification events
+  logger?: Logger; // Defaults to the global logger
 };
 
-const EMPTY_CONTEXT: TokenContext = Object.freeze({
-  HIDE_ADVERTISEMENTS: false,
-  HIDE_COOKIE_CONSENT_SCREEN: false,
-  HIDE_MARKETING_DIALOGS: false,
-  DISABLE_NON_FUNCTIONAL_TRACKING: false,
-  DISABLE_CONTENT_PAYWALL: false,
-  ENABLE_SUBSCRIPTION_ACCESS: false,
-}) as TokenContext;
+export async function parseClientToken(
+  headerValue: ClientHeaderValue,
+  options: ParseClientTokenOptions
+): Promise<TokenContext> {
+  const now = Date.now();
+  const { status, data, cached } = await resolveClientToken(headerValue, options, now);
 
-function createEmptyContext(): TokenContext {
-  return EMPTY_CONTEXT;
+  options.metrics?.({ type: "parse", status: data ? validateToken(data, options, now) : status, cached: !!cached });
+  return buildContext(data, options, now);
 }
 
-export async function parseClientToken(
+export type ParsedClientToken = {
+  status: ClientTokenStatus;
+  context: TokenContext;
+  token?: DecodedClientHeader; // Present whenever the signature was verified, even if the token was then rejected
+  verifiedKey?: VerifiedKey; // The trusted key that verified the signature
+};
+
+/**
+ * Same as `parseClientToken()`, but also reports why a token was rejected along with its decoded content.
+ */
+export async function parseClientTokenDetailed(
   headerValue: ClientHeaderValue,
   options: ParseClientTokenOptions
-): Promise<TokenContext> {
+): Promise<ParsedClientToken> {
+  const now = Date.now();
+  const { status, data, verifiedKey, cached } = await resolveClientToken(headerValue, options, now);
+  const tokenStatus = data ? validateToken(data, options, now) : status;
+
+  options.metrics?.({ type: "parse", status: tokenStatus, cached: !!cached });
+
+  if (!data) {
+    return { status, context: createEmptyContext() };
+  }
+
+  return {
+    status: tokenStatus,
+    context: buildContext(data, options, now),
+    token: data,
+    ...(verifiedKey && { verifiedKey }),
+  };
+}
+
+async function resolveClientToken(
+  headerValue: ClientHeaderValue,
+  options: ParseClientTokenOptions,
+  now: number
+): Promise<DecodeResult> {
   if (!headerValue || (Array.isArray(headerValue) && !headerValue.length)) {
-    return createEmptyContext();
+    return { status: "missing" };
   }
 
   const headerValueAsString = Array.isArray(headerValue) ? headerValue[0] : headerValue;
-  const now = Date.now();
+  const publicKeys = resolvePublicKeys(options);
 
-  if (cacheConfig.enabled && !options.bypassCache) {
-    const cached = headerCache.get(headerValueAsString);
+  if (options.bypassCache) {
+    return timedDecode(headerValueAsString, publicKeys, options);
+  }
 
-    if (cached && cached.effectiveExpiry > now) {
-      cached.accessCount++;
-      return buildContext(cached.data, options, now);
-    } else if (cached) {
-      headerCache.delete(headerValueAsString);
+  const cache = options.cache ?? defaultTokenCache;
+  const { enabled, ttl } = cache.getConfig();
+
+  // Entries are scoped to the trusted keys: a token verified by one `Site` must not pass on another
+  // one sharing the store, and a token one `Site` rejected may still be valid for another
+  const cacheKey = publicKeys.map((key) => key.publicKey).join() + SEPARATOR + headerValueAsString;
+
+  if (enabled) {
+    const cached = await cache.get(cacheKey, now);
+    if (cached) {
+      return {
+        data: cached.data,
+        status: cached.status ?? (cached.data ? "valid" : "malformed"),
+        cached: true,
+        ...(cached.verifiedKey && { verifiedKey: cached.verifiedKey }),
+      };
     }
   }
 
-  const data = await decodeClientHeader(headerValueAsString, options.publicKey || ZEROAD_NETWORK_PUBLIC_KEY);
+  // Concurrent callers with the same header value share a single verification and cache write
+  return cache.coalesce(cacheKey, async () => {
+    const result = await timedDecode(headerValueAsString, publicKeys, options);
 
-  if (cacheConfig.enabled && !options.bypassCache) {
-    const cacheTTLExpiry = now + cacheConfig.ttl;
-    const tokenExpiry = data?.expiresAt.getTime() ?? 0;
-    const effectiveExpiry = tokenExpiry > 0 ? Math.min(cacheTTLExpiry, tokenExpiry) : cacheTTLExpiry;
+    if (enabled) {
+      const cacheTTLExpiry = now + ttl;
+      const tokenExpiry = result.data?.expiresAt.getTime() || Infinity;
+      const keyExpiry = result.verifiedKey?.notAfter ?? Infinity;
+      const effectiveExpiry = Math.min(cacheTTLExpiry, tokenExpiry, keyExpiry);
 
-    headerCache.set(headerValueAsString, {
-      data,
-      timestamp: now,
-      accessCount: 1,
-      effectiveExpiry,
-    });
-
-    // Periodically clean expired entries (every 100th parse)
-    if (headerCache.size > 0 && headerCache.size % 100 === 0) {
-      cleanExpiredEntries(now);
+      // Tokens that are already expired are not worth caching
+      if (effectiveExpiry > now) {
+        const { data, status, verifiedKey } = result;
+        await cache.set(cacheKey, { data, status, verifiedKey, effectiveExpiry }, now);
+      }
     }
 
-    trimCache();
-  }
+    return result;
+  });
+}
 
-  return buildContext(data, options, now);
+async function timedDecode(
+  headerValue: string,
+  publicKeys: ReadonlyArray<TrustedPublicKey>,
+  options: ParseClientTokenOptions
+): Promise<DecodeResult> {
+  const start = performance.now();
+  const result = await decode(headerValue, publicKeys, options.keyId, options.logger);
+
+  options.metrics?.({ type: "verification", status: result.status, duration: performance.now() - start });
+  return result;
+}
+
+function resolvePublicKeys(options: ParseClientTokenOptions): ReadonlyArray<TrustedPublicKey> {
+  if (options.publicKeys) return options.publicKeys;
+  if (options.publicKey) return [{ publicKey: options.publicKey }];
+
+  return ZEROAD_NETWORK_TRUSTED_KEYS;
+}
+
+function validateToken(data: DecodedClientHeader, options: ParseClientTokenOptions, now: number): ClientTokenStatus {
+  if (data.expiresAt.getTime() < now) return "expired";
+
+  // Validate `clientId` if present (developer token)
+  if (data.clientId && data.clientId !== options.clientId) return "client_mismatch";
+
+  return "valid";
 }
 
 function buildContext(
@@ -107,14 +167,7 @@ function buildContext(
   options: ParseClientTokenOptions,
   now: number
 ): TokenContext {
-  let flags = 0;
-
-  if (data && data.expiresAt.getTime() >= now) {
-    // Validate `clientId` if present (developer token)
-    if (!data.clientId || data.clientId === options.clientId) {
-      flags = data.flags;
-    }
-  }
+  const flags = data && validateToken(data, options, now) === "valid" ? data.flags : 0;
 
   if (!flags) {
     return createEmptyContext();
@@ -152,102 +205,312 @@ export type DecodedClientHeader = {
   expiresAt: Date;
   flags: number;
   clientId?: string;
+  keyId?: string; // V2 only
+  issuedAt?: Date; // V2 only
+};
+
+/**
+ * Outcome of parsing a client token: `missing`, `malformed`, `bad_signature` and `unsupported_version`
+ * come from decoding the header value, `expired` and `client_mismatch` from validating a decoded token.
+ */
+export type ClientTokenStatus =
+  "missing" | "malformed" | "bad_signature" | "unsupported_version" | "expired" | "client_mismatch" | "valid";
+
+type DecodeResult = {
+  status: ClientTokenStatus;
+  data?: DecodedClientHeader;
+  verifiedKey?: VerifiedKey;
+  reason?: string;
+  cached?: boolean;
 };
 
 export async function decodeClientHeader(
   headerValue: string | null | undefined,
-  publicKey: string
+  publicKey: string | ReadonlyArray<TrustedPublicKey>,
+  keyId?: string
 ): Promise<DecodedClientHeader | undefined> {
-  if (!headerValue?.length) return undefined;
+  const publicKeys = typeof publicKey === "string" ? [{ publicKey }] : publicKey;
+  return (await decode(headerValue, publicKeys, keyId)).data;
+}
+
+async function decode(
+  headerValue: string | null | undefined,
+  publicKeys: ReadonlyArray<TrustedPublicKey>,
+  keyId?: string,
+  logger: Logger = defaultLogger
+): Promise<DecodeResult> {
+  if (!headerValue?.length) return { status: "missing" };
+
+  const result = await verifyClientHeader(headerValue, publicKeys, keyId);
+
+  if (!result.data) {
+    logger.log("warn", "CLIENT_HEADER_INVALID", { reason: result.reason });
+  }
+
+  return result;
+}
+
+async function verifyClientHeader(
+  headerValue: string,
+  publicKeys: ReadonlyArray<TrustedPublicKey>,
+  keyId?: string
+): Promise<DecodeResult> {
+  const separatorIndex = headerValue.indexOf(SEPARATOR);
+  if (separatorIndex === -1) {
+    return { status: "malformed", reason: "Invalid header format: missing separator" };
+  }
+
+  let dataBytes: Uint8Array;
+  let signatureBytes: Uint8Array;
+
+  try {
+    dataBytes = fromBase64(headerValue.substring(0, separatorIndex));
+    signatureBytes = fromBase64(headerValue.substring(separatorIndex + 1));
+  } catch (err) {
+    return { status: "malformed", reason: (err as Error)?.message };
+  }
+
+  let verifiedKey: VerifiedKey | undefined;
 
   try {
-    const separatorIndex = headerValue.indexOf(SEPARATOR);
-    if (separatorIndex === -1) {
-      throw new Error("Invalid header format: missing separator");
+    verifiedKey = await verifyWithTrustedKeys(
+      dataBytes.buffer as ArrayBuffer,
+      signatureBytes.buffer as ArrayBuffer,
+      publicKeys,
+      Date.now(),
+      // Only decides which key is tried first, the signature is verified either way
+      keyId ?? readKeyId(dataBytes)
+    );
+
+    if (!verifiedKey) {
+      return { status: "bad_signature", reason: "Forged header value is provided" };
     }
+  } catch (err) {
+    return { status: "bad_signature", reason: (err as Error)?.message };
+  }
 
-    const data = headerValue.substring(0, separatorIndex);
-    const signature = headerValue.substring(separatorIndex + 1);
+  const result = decodePayload(dataBytes);
+  return result.data ? { ...result, verifiedKey } : result;
+}
 
-    const dataBytes = fromBase64(data);
-    const signatureBytes = fromBase64(signature);
+function decodePayload(dataBytes: Uint8Array): DecodeResult {
+  const version = dataBytes[0];
 
-    if (!(await verify(dataBytes.buffer as ArrayBuffer, signatureBytes.buffer as ArrayBuffer, publicKey))) {
-      throw new Error("Forged header value is provided");
-    }
+  if (version === PROTOCOL_VERSION.V_1) return decodeV1Payload(dataBytes);
+  if (version === PROTOCOL_VERSION.V_2) return decodeV2Payload(dataBytes);
 
-    const version = dataBytes[0];
+  return { status: "unsupported_version", reason: `Unsupported protocol version: ${version}` };
+}
 
-    if (version === PROTOCOL_VERSION.V_1) {
-      const expectedMinLength = VERSION_BYTES + NONCE_BYTES + UINT32_BYTES * 2;
+// [version][nonce 4][expiresAt uint32][flags uint32][clientId]
+function decodeV1Payload(dataBytes: Uint8Array): DecodeResult {
+  const expectedMinLength = VERSION_BYTES + NONCE_BYTES + UINT32_BYTES * 2;
 
-      if (dataBytes.byteLength < expectedMinLength) {
-        throw new Error("Invalid data length");
-      }
+  if (dataBytes.byteLength < expectedMinLength) {
+    return { status: "malformed", reason: "Invalid data length" };
+  }
 
-      const view = new DataView(dataBytes.buffer, dataBytes.byteOffset, dataBytes.byteLength);
-      const expiresAtOffset = VERSION_BYTES + NONCE_BYTES;
-      const flagsOffset = expiresAtOffset + UINT32_BYTES;
+  const view = new DataView(dataBytes.buffer, dataBytes.byteOffset, dataBytes.byteLength);
+  const expiresAtOffset = VERSION_BYTES + NONCE_BYTES;
+  const flagsOffset = expiresAtOffset + UINT32_BYTES;
 
-      const expiresAt = view.getUint32(expiresAtOffset, true);
-      const flags = view.getUint32(flagsOffset, true);
+  const expiresAt = view.getUint32(expiresAtOffset, true);
+  const flags = view.getUint32(flagsOffset, true);
 
-      let clientId: string | undefined;
-      if (dataBytes.byteLength > expectedMinLength) {
-        // The `clientId` is included
-        const clientIdBytes = dataBytes.subarray(expectedMinLength);
-        clientId = new TextDecoder().decode(clientIdBytes);
-      }
+  let clientId: string | undefined;
+  if (dataBytes.byteLength > expectedMinLength) {
+    // The `clientId` is included
+    const clientIdBytes = dataBytes.subarray(expectedMinLength);
+    clientId = new TextDecoder().decode(clientIdBytes);
+  }
 
-      return {
-        version,
-        expiresAt: new Date(expiresAt * 1000),
-        flags,
-        ...(clientId && { clientId }),
-      };
+  return {
+    status: "valid",
+    data: {
+      version: PROTOCOL_VERSION.V_1,
+      expiresAt: new Date(expiresAt * 1000),
+      flags,
+      ...(clientId && { clientId }),
+    },
+  };
+}
+
+const V2_KEY_ID_OFFSET = VERSION_BYTES + NONCE_BYTES + UINT32_BYTES + UINT64_BYTES * 2;
+
+// [version][nonce 4][flags uint32][issuedAt uint64][expiresAt uint64][keyId length uint8][keyId][extensions]
+function decodeV2Payload(dataBytes: Uint8Array): DecodeResult {
+  const malformed = (reason: string): DecodeResult => ({ status: "malformed", reason });
+
+  if (dataBytes.byteLength < V2_KEY_ID_OFFSET + KEY_ID_LENGTH_BYTES) {
+    return malformed("Invalid data length");
+  }
+
+  const view = new DataView(dataBytes.buffer, dataBytes.byteOffset, dataBytes.byteLength);
+  const flagsOffset = VERSION_BYTES + NONCE_BYTES;
+  const issuedAtOffset = flagsOffset + UINT32_BYTES;
+  const expiresAtOffset = issuedAtOffset + UINT64_BYTES;
+
+  const flags = view.getUint32(flagsOffset, true);
+  const issuedAt = Number(view.getBigUint64(issuedAtOffset, true));
+  const expiresAt = Number(view.getBigUint64(expiresAtOffset, true));
+
+  if (issuedAt > MAX_DATE_SECONDS || expiresAt > MAX_DATE_SECONDS) {
+    return malformed("Timestamp out of range");
+  }
+
+  const keyIdLength = dataBytes[V2_KEY_ID_OFFSET];
+  let offset = V2_KEY_ID_OFFSET + KEY_ID_LENGTH_BYTES + keyIdLength;
+
+  if (dataBytes.byteLength < offset) {
+    return malformed("Invalid key id length");
+  }
+
+  const decoder = new TextDecoder();
+  const keyId = decoder.decode(dataBytes.subarray(offset - keyIdLength, offset));
+
+  let clientId: string | undefined;
+  while (offset < dataBytes.byteLength) {
+    if (dataBytes.byteLength < offset + EXTENSION_HEADER_BYTES) {
+      return malformed("Invalid extension header");
     }
 
-    throw new Error(`Unsupported protocol version: ${version}`);
-  } catch (err) {
-    log("warn", "Could not decode client header value", { reason: (err as Error)?.message });
+    const tag = dataBytes[offset];
+    const length = view.getUint16(offset + 1, true);
+    const valueOffset = offset + EXTENSION_HEADER_BYTES;
+    offset = valueOffset + length;
+
+    if (dataBytes.byteLength < offset) {
+      return malformed("Invalid extension length");
+    }
+
+    // Unknown tags are skipped, they may come from a newer issuer
+    if (tag === CLIENT_HEADER_EXTENSION.CLIENT_ID) {
+      clientId = decoder.decode(dataBytes.subarray(valueOffset, offset));
+    }
+  }
+
+  return {
+    status: "valid",
+    data: {
+      version: PROTOCOL_VERSION.V_2,
+      expiresAt: new Date(expiresAt * 1000),
+      flags,
+      ...(clientId && { clientId }),
+      ...(keyId && { keyId }),
+      issuedAt: new Date(issuedAt * 1000),
+    },
+  };
+}
+
+function readKeyId(dataBytes: Uint8Array): string | undefined {
+  if (dataBytes[0] !== PROTOCOL_VERSION.V_2) return undefined;
+
+  const start = V2_KEY_ID_OFFSET + KEY_ID_LENGTH_BYTES;
+  const end = start + (dataBytes[V2_KEY_ID_OFFSET] ?? 0);
+  if (end === start || dataBytes.byteLength < end) return undefined;
+
+  return new TextDecoder().decode(dataBytes.subarray(start, end));
+}
+
+export type InspectedClientHeader = DecodedClientHeader & {
+  nonce: string; // hex encoded
+};
+
+/**
+ * Decodes a header value WITHOUT verifying its signature. Meant for debugging tools only,
+ * use `parseClientToken()` or `decodeClientHeader()` to make access decisions.
+ */
+export function inspectClientHeader(headerValue: string | null | undefined): InspectedClientHeader | undefined {
+  const separatorIndex = headerValue?.indexOf(SEPARATOR) ?? -1;
+  if (!headerValue || separatorIndex === -1) return undefined;
+
+  try {
+    const dataBytes = fromBase64(headerValue.substring(0, separatorIndex));
+    const { data } = decodePayload(dataBytes);
+    if (!data) return undefined;
+
+    const nonceBytes = dataBytes.subarray(VERSION_BYTES, VERSION_BYTES + NONCE_BYTES);
+    return { ...data, nonce: Array.from(nonceBytes, (byte) => byte.toString(16).padStart(2, "0")).join("") };
+  } catch {
     return undefined;
   }
 }
 
+export type ClientHeaderExtension = {
+  tag: number; // See `CLIENT_HEADER_EXTENSION`, 1-255
+  value: Uint8Array; // Up to 65535 bytes
+};
+
 type EncodeData = {
   version: PROTOCOL_VERSION;
   expiresAt: Date;
   features: FEATURE[];
   clientId?: string;
+  keyId?: string; // V2 only, up to 255 bytes of UTF-8
+  issuedAt?: Date; // V2 only, defaults to now
+  extensions?: ClientHeaderExtension[]; // V2 only, written after the known claims
 };
 
 export async function encodeClientHeader(data: EncodeData, privateKey: string) {
-  const payload = mergeByteArrays([
-    new Uint8Array([data.version]),
-    new Uint8Array(nonce(NONCE_BYTES)),
-    new Uint32Array([Math.floor(data.expiresAt.getTime() / 1000)]),
-    new Uint32Array([setFlags(data.features)]),
-    ...(data.clientId?.length ? [new Uint8Array(new TextEncoder().encode(data.clientId))] : []),
-  ]);
+  const { nonce, sign } = getCryptoBackend();
+  const payload =
+    data.version === PROTOCOL_VERSION.V_2
+      ? encodeV2Payload(data, new Uint8Array(nonce(NONCE_BYTES)))
+      : mergeByteArrays([
+          new Uint8Array([data.version]),
+          new Uint8Array(nonce(NONCE_BYTES)),
+          new Uint32Array([Math.floor(data.expiresAt.getTime() / 1000)]),
+          new Uint32Array([setFlags(data.features)]),
+          ...(data.clientId?.length ? [new Uint8Array(new TextEncoder().encode(data.clientId))] : []),
+        ]);
 
   return [toBase64(payload), toBase64(new Uint8Array(await sign(payload.buffer, privateKey)))].join(SEPARATOR);
 }
 
-function mergeByteArrays(arrays: (Uint8Array | Uint32Array)[]) {
-  const totalLength = arrays.reduce((sum, a) => sum + a.byteLength, 0);
-  const data = new Uint8Array(totalLength);
+function encodeV2Payload(data: EncodeData, nonceBytes: Uint8Array) {
+  const encoder = new TextEncoder();
+  const keyIdBytes = encoder.encode(data.keyId ?? "");
+
+  if (keyIdBytes.byteLength > 0xff) {
+    throw new Error("The provided `keyId` value cannot be longer than 255 bytes");
+  }
 
-  let offset = 0;
-  for (const arr of arrays) {
-    let bytes: Uint8Array;
+  const extensions: ClientHeaderExtension[] = [
+    ...(data.clientId?.length
+      ? [{ tag: CLIENT_HEADER_EXTENSION.CLIENT_ID, value: encoder.encode(data.clientId) }]
+      : []),
+    ...(data.extensions ?? []),
+  ];
 
-    if (arr instanceof Uint8Array) bytes = arr;
-    else if (arr instanceof Uint32Array) bytes = new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength);
-    else throw new Error("Unsupported type");
+  return mergeByteArrays([
+    new Uint8Array([PROTOCOL_VERSION.V_2]),
+    nonceBytes,
+    new Uint32Array([setFlags(data.features)]),
+    uint64(Math.floor((data.issuedAt?.getTime() ?? Date.now()) / 1000)),
+    uint64(Math.floor(data.expiresAt.getTime() / 1000)),
+    new Uint8Array([keyIdBytes.byteLength]),
+    keyIdBytes,
+    ...extensions.flatMap(encodeExtension),
+  ]);
+}
 
-    data.set(bytes, offset);
-    offset += bytes.byteLength;
+function encodeExtension({ tag, value }: ClientHeaderExtension) {
+  if (!Number.isInteger(tag) || tag < 1 || tag > 0xff) {
+    throw new Error(`Invalid extension tag: ${tag}`);
+  }
+  if (value.byteLength > 0xffff) {
+    throw new Error(`Extension ${tag} cannot be longer than 65535 bytes`);
   }
 
-  return data;
+  const header = new Uint8Array(EXTENSION_HEADER_BYTES);
+  header[0] = tag;
+  new DataView(header.buffer).setUint16(1, value.byteLength, true);
+
+  return [header, value];
+}
+
+function uint64(value: number) {
+  const bytes = new Uint8Array(UINT64_BYTES);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+  return bytes;
 }
@@ -0,0 +1,104 @@
+export type FrequencyNode = {
+  key: string;
+  accessCount: number;
+  prev?: FrequencyNode;
+  next?: FrequencyNode;
+};
+
+type Bucket = {
+  head?: FrequencyNode; // Least recently used
+  tail?: FrequencyNode; // Most recently used
+};
+
+/**
+ * O(1) LFU index: nodes are grouped into doubly-linked lists per access count,
+ * each list ordered from least to most recently used (LRU tie-break).
+ */
+export type FrequencyIndex = {
+  add(node: FrequencyNode): void;
+  touch(node: FrequencyNode): void;
+  remove(node: FrequencyNode): void;
+  pop(): FrequencyNode | undefined;
+  clear(): void;
+};
+
+export function createFrequencyIndex(): FrequencyIndex {
+  const buckets = new Map<number, Bucket>();
+  let minCount = 0;
+
+  function append(node: FrequencyNode) {
+    let bucket = buckets.get(node.accessCount);
+
+    if (!bucket) {
+      bucket = {};
+      buckets.set(node.accessCount, bucket);
+    }
+
+    node.prev = bucket.tail;
+    node.next = undefined;
+
+    if (bucket.tail) bucket.tail.next = node;
+    else bucket.head = node;
+
+    bucket.tail = node;
+  }
+
+  function unlink(node: FrequencyNode) {
+    const bucket = buckets.get(node.accessCount);
+    if (!bucket) return;
+
+    if (node.prev) node.prev.next = node.next;
+    else bucket.head = node.next;
+
+    if (node.next) node.next.prev = node.prev;
+    else bucket.tail = node.prev;
+
+    node.prev = node.next = undefined;
+
+    if (!bucket.head) {
+      buckets.delete(node.accessCount);
+      if (minCount === node.accessCount) minCount = 0; // Resolved lazily on the next `pop()`
+    }
+  }
+
+  return {
+    add(node) {
+      node.accessCount = 1;
+      append(node);
+      minCount = 1;
+    },
+
+    touch(node) {
+      const wasMin = minCount === node.accessCount;
+
+      unlink(node);
+      node.accessCount++;
+      append(node);
+
+      if (wasMin && !minCount) minCount = node.accessCount;
+    },
+
+    remove(node) {
+      unlink(node);
+    },
+
+    pop() {
+      if (!buckets.size) return undefined;
+
+      if (!buckets.has(minCount)) {
+        // Only reached after removals emptied the lowest bucket, e.g. when `maxSize` shrinks
+        minCount = Math.min(...buckets.keys());
+      }
+
+      const node = (buckets.get(minCount) as Bucket).head as FrequencyNode;
+      unlink(node);
+
+      return node;
+    },
+
+    clear() {
+      buckets.clear();
+      minCount = 0;
+    },
+  };
+}
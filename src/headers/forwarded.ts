@@ -0,0 +1,179 @@
+import { getCryptoBackend, hmac } from "../backend";
+import { fromBase64, mergeByteArrays, toBase64 } from "../helpers";
+import { log } from "../logger";
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "../context";
+
+/**
+ * Internal header carrying a verified token context from a proxy to the origin. It is not part
+ * of the public protocol: strip it from incoming requests at the proxy so clients cannot set it.
+ */
+export const FORWARDED_CONTEXT_HEADER = "x-zeroad-context";
+
+export const FORWARDED_CONTEXT_VERSION = 1;
+
+export const FORWARDED_CONTEXT_TTL = 30_000; // Milliseconds, the header only has to outlive a single hop
+
+export enum FORWARDED_CONTEXT_ALGORITHM {
+  HMAC_SHA256 = 1,
+  ED25519 = 2,
+}
+
+const VERSION_BYTES = 1;
+const ALGORITHM_BYTES = 1;
+const NONCE_BYTES = 4;
+const UINT32_BYTES = 4;
+const HEADER_BYTES = VERSION_BYTES + ALGORITHM_BYTES + NONCE_BYTES + UINT32_BYTES * 2;
+const SEPARATOR = ".";
+
+// Bit positions of the actions in the encoded flags, append new actions to keep old headers readable
+const ACTIONS: ReadonlyArray<FEATURE_ACTION> = Object.freeze([
+  "HIDE_ADVERTISEMENTS",
+  "HIDE_COOKIE_CONSENT_SCREEN",
+  "HIDE_MARKETING_DIALOGS",
+  "DISABLE_NON_FUNCTIONAL_TRACKING",
+  "DISABLE_CONTENT_PAYWALL",
+  "ENABLE_SUBSCRIPTION_ACCESS",
+]);
+
+export type ForwardedContextSigningKey =
+  | { secret: string } // HMAC-SHA256 secret shared by the proxy and the origin
+  | { privateKey: string }; // Ed25519, base64 encoded PKCS8 DER
+
+// The shared secret or the Ed25519 public key (base64 encoded SPKI DER) matching the signing key
+export type ForwardedContextVerificationKey = { secret: string } | { publicKey: string };
+
+export type ForwardedContextData = {
+  tokenContext: TokenContext;
+  clientId: string;
+  expiresAt?: Date; // Defaults to `FORWARDED_CONTEXT_TTL` from now
+};
+
+export type DecodedForwardedContext = {
+  version: number;
+  algorithm: FORWARDED_CONTEXT_ALGORITHM;
+  expiresAt: Date;
+  clientId: string;
+  tokenContext: TokenContext;
+};
+
+export type ParseForwardedContextOptions = {
+  clientId: string;
+  key: ForwardedContextVerificationKey;
+};
+
+/**
+ * Encodes an already verified token context for the origin, signed with a shared HMAC secret or an
+ * Ed25519 private key. Uses the same `payload.signature` layout as the client header, with
+ * actions instead of features as flags, so the origin doesn't need the site features.
+ */
+export async function encodeForwardedContext(
+  data: ForwardedContextData,
+  key: ForwardedContextSigningKey
+): Promise<string> {
+  if (!data.clientId?.length) {
+    throw new Error("The provided `clientId` value cannot be an empty string");
+  }
+
+  const algorithm = "secret" in key ? FORWARDED_CONTEXT_ALGORITHM.HMAC_SHA256 : FORWARDED_CONTEXT_ALGORITHM.ED25519;
+  const expiresAt = data.expiresAt?.getTime() ?? Date.now() + FORWARDED_CONTEXT_TTL;
+  const flags = ACTIONS.reduce((flags, action, bit) => (data.tokenContext[action] ? flags | (1 << bit) : flags), 0);
+
+  const payload = mergeByteArrays([
+    new Uint8Array([FORWARDED_CONTEXT_VERSION, algorithm]),
+    new Uint8Array(getCryptoBackend().nonce(NONCE_BYTES)),
+    new Uint32Array([Math.floor(expiresAt / 1000)]),
+    new Uint32Array([flags]),
+    new TextEncoder().encode(data.clientId),
+  ]);
+
+  const signature =
+    "secret" in key
+      ? await hmac(payload.buffer, key.secret)
+      : await getCryptoBackend().sign(payload.buffer, key.privateKey);
+
+  return [toBase64(payload), toBase64(new Uint8Array(signature))].join(SEPARATOR);
+}
+
+/**
+ * Verifies the signature and decodes a forwarded context without checking its expiry or `clientId`,
+ * use `parseForwardedContext()` to make access decisions.
+ */
+export async function decodeForwardedContext(
+  headerValue: string | null | undefined,
+  key: ForwardedContextVerificationKey
+): Promise<DecodedForwardedContext | undefined> {
+  if (!headerValue?.length) return undefined;
+
+  try {
+    const separatorIndex = headerValue.indexOf(SEPARATOR);
+    if (separatorIndex === -1) throw new Error("Invalid header format: missing separator");
+
+    const dataBytes = fromBase64(headerValue.substring(0, separatorIndex));
+    const signatureBytes = fromBase64(headerValue.substring(separatorIndex + 1));
+
+    if (dataBytes.byteLength <= HEADER_BYTES) throw new Error("Invalid data length");
+    if (dataBytes[0] !== FORWARDED_CONTEXT_VERSION) throw new Error(`Unsupported version: ${dataBytes[0]}`);
+
+    const algorithm = dataBytes[VERSION_BYTES] as FORWARDED_CONTEXT_ALGORITHM;
+    if (!(await verifySignature(dataBytes, signatureBytes, algorithm, key))) {
+      throw new Error("Forged header value is provided");
+    }
+
+    const view = new DataView(dataBytes.buffer, dataBytes.byteOffset, dataBytes.byteLength);
+    const expiresAtOffset = VERSION_BYTES + ALGORITHM_BYTES + NONCE_BYTES;
+    const flags = view.getUint32(expiresAtOffset + UINT32_BYTES, true);
+
+    const tokenContext = { ...createEmptyContext() };
+    ACTIONS.forEach((action, bit) => (tokenContext[action] = (flags & (1 << bit)) !== 0));
+
+    return {
+      version: dataBytes[0],
+      algorithm,
+      expiresAt: new Date(view.getUint32(expiresAtOffset, true) * 1000),
+      clientId: new TextDecoder().decode(dataBytes.subarray(HEADER_BYTES)),
+      tokenContext,
+    };
+  } catch (err) {
+    log("warn", "FORWARDED_CONTEXT_INVALID", { reason: (err as Error)?.message });
+    return undefined;
+  }
+}
+
+async function verifySignature(
+  data: Uint8Array,
+  signature: Uint8Array,
+  algorithm: FORWARDED_CONTEXT_ALGORITHM,
+  key: ForwardedContextVerificationKey
+) {
+  // The algorithm must match the configured key, a header can't pick a weaker one
+  if ("secret" in key) {
+    if (algorithm !== FORWARDED_CONTEXT_ALGORITHM.HMAC_SHA256) return false;
+
+    const expected = await hmac(data.slice().buffer, key.secret);
+    let diff = expected.byteLength ^ signature.byteLength;
+    for (let i = 0; i < expected.byteLength; i++) diff |= expected[i] ^ (signature[i] ?? 0);
+
+    return diff === 0;
+  }
+
+  if (algorithm !== FORWARDED_CONTEXT_ALGORITHM.ED25519) return false;
+
+  return getCryptoBackend().verify(data.slice().buffer, signature.slice().buffer, key.publicKey);
+}
+
+/**
+ * Origin side counterpart of `encodeForwardedContext()`: all actions are disabled unless the header
+ * is signed with `key`, has not expired and was issued for `clientId`.
+ */
+export async function parseForwardedContext(
+  headerValue: string | null | undefined,
+  options: ParseForwardedContextOptions
+): Promise<TokenContext> {
+  const decoded = await decodeForwardedContext(headerValue, options.key);
+
+  if (!decoded || decoded.expiresAt.getTime() < Date.now() || decoded.clientId !== options.clientId) {
+    return createEmptyContext();
+  }
+
+  return decoded.tokenContext;
+}
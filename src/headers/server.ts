@@ -1,13 +1,38 @@
-import { CURRENT_PROTOCOL_VERSION, PROTOCOL_VERSION, FEATURE } from "../constants";
+import { CURRENT_PROTOCOL_VERSION, PROTOCOL_VERSION, FEATURE, SUPPORTED_PROTOCOL_VERSIONS } from "../constants";
 import { assert, FEATURE_MAP, hasFlag, setFlags } from "../helpers";
 import { log } from "../logger";
 
 const SEPARATOR = "^";
+const PARAM_SEPARATOR = ";";
+const LIST_SEPARATOR = ",";
+const PATH_FLAGS_SEPARATOR = ":";
 
 const validFeatureValues = Object.values(FEATURE).filter((key) => !isNaN(Number(key))) as FEATURE[];
 const validFeatureKeys = Object.values(FEATURE).filter((key) => isNaN(Number(key))) as FEATURE[];
 
-export function encodeServerHeader(clientId: string, features: FEATURE[]) {
+export type PathFeatures<F = FEATURE> = {
+  pattern: string; // Matched like a string `PathPattern`, e.g. `/premium-reports` or `/reports/*.pdf`
+  features: F[]; // Replaces the site features on matching paths
+};
+
+export type ServerHeaderOptions = {
+  versions?: PROTOCOL_VERSION[]; // Token versions the site accepts, e.g. `SUPPORTED_PROTOCOL_VERSIONS`
+  policyUrl?: string;
+  paths?: PathFeatures[];
+};
+
+const validateFeatures = (features: FEATURE[]) => {
+  if (features.filter((feature) => validFeatureValues.includes(feature)).length !== features.length) {
+    throw new Error(`Only valid site features are allowed: ${validFeatureKeys.join(" | ")}`);
+  }
+};
+
+/**
+ * Encodes `clientId^version^features`. Extras in `options` are opt-in and appended as a fourth part of
+ * `;` separated `name=value` params, unknown ones are ignored. Parsers expecting exactly three parts,
+ * like `decodeServerHeader()` up to 0.14, reject such values.
+ */
+export function encodeServerHeader(clientId: string, features: FEATURE[], options: ServerHeaderOptions = {}) {
   if (!clientId?.length) {
     throw new Error("The provided `clientId` value cannot be an empty string");
   }
@@ -16,17 +41,46 @@ export function encodeServerHeader(clientId: string, features: FEATURE[]) {
     throw new Error("At least one site feature must be provided");
   }
 
-  if (features.filter((feature) => validFeatureValues.includes(feature)).length !== features.length) {
-    throw new Error(`Only valid site features are allowed: ${validFeatureKeys.join(" | ")}`);
+  validateFeatures(features);
+
+  const parts: (string | number)[] = [clientId, CURRENT_PROTOCOL_VERSION, setFlags(features)];
+  const params = encodeParams(options);
+
+  return (params ? [...parts, params] : parts).join(SEPARATOR);
+}
+
+function encodeParams({ versions, policyUrl, paths }: ServerHeaderOptions) {
+  const params: string[] = [];
+
+  if (versions?.length) {
+    if (!versions.every((version) => SUPPORTED_PROTOCOL_VERSIONS.includes(version))) {
+      throw new Error(`Only supported protocol versions are allowed: ${SUPPORTED_PROTOCOL_VERSIONS.join(" | ")}`);
+    }
+    params.push(`versions=${versions.join(LIST_SEPARATOR)}`);
+  }
+
+  if (policyUrl) {
+    params.push(`policy=${encodeURIComponent(policyUrl)}`);
+  }
+
+  if (paths?.length) {
+    paths.forEach(({ features }) => validateFeatures(features));
+    const values = paths.map(
+      ({ pattern, features }) => `${encodeURIComponent(pattern)}${PATH_FLAGS_SEPARATOR}${setFlags(features)}`
+    );
+    params.push(`paths=${values.join(LIST_SEPARATOR)}`);
   }
 
-  return [clientId, CURRENT_PROTOCOL_VERSION, setFlags(features)].join(SEPARATOR);
+  return params.join(PARAM_SEPARATOR);
 }
 
 export type WelcomeHeader = {
   clientId: string;
   version: PROTOCOL_VERSION;
   features: (keyof typeof FEATURE)[];
+  versions?: PROTOCOL_VERSION[]; // Only when advertised, known versions the site accepts
+  policyUrl?: string;
+  paths?: PathFeatures<keyof typeof FEATURE>[];
 };
 
 export function decodeServerHeader(headerValue: string | null | undefined): WelcomeHeader | undefined {
@@ -34,27 +88,74 @@ export function decodeServerHeader(headerValue: string | null | undefined): Welc
 
   try {
     const parts = headerValue.split(SEPARATOR);
-    assert(parts.length === 3, "Invalid header value format");
+    assert(parts.length === 3 || parts.length === 4, "Invalid header value format");
 
-    const [clientId, protocolVersion, flags] = parts;
+    const [clientId, protocolVersion, flags, params] = parts;
     assert(
       Object.values(PROTOCOL_VERSION).includes(Number(protocolVersion)),
       "Invalid or unsupported protocol version"
     );
 
-    assert(Number(flags).toFixed(0).toString() === flags, "Invalid flags number");
-
-    const features: (keyof typeof FEATURE)[] = [];
-    for (const [feature, bit] of FEATURE_MAP) {
-      if (hasFlag(Number(flags), bit)) features.push(feature);
-    }
-
     return {
       version: Number(protocolVersion),
       clientId,
-      features,
+      features: decodeFlags(flags),
+      ...(params && decodeParams(params)),
     };
   } catch (err) {
-    log("warn", "Could not decode server header value", { reason: (err as Error)?.message });
+    log("warn", "SERVER_HEADER_INVALID", { reason: (err as Error)?.message });
+  }
+}
+
+function decodeFlags(flags: string) {
+  assert(Number(flags).toFixed(0).toString() === flags, "Invalid flags number");
+
+  const features: (keyof typeof FEATURE)[] = [];
+  for (const [feature, bit] of FEATURE_MAP) {
+    if (hasFlag(Number(flags), bit)) features.push(feature);
+  }
+
+  return features;
+}
+
+function decodeParams(params: string): Partial<WelcomeHeader> {
+  const extras: Partial<WelcomeHeader> = {};
+
+  for (const param of params.split(PARAM_SEPARATOR)) {
+    const index = param.indexOf("=");
+    const name = param.substring(0, index);
+    const value = param.substring(index + 1);
+
+    if (name === "versions") {
+      // Versions this release doesn't know are left out, they can't be negotiated anyway
+      const versions = value.split(LIST_SEPARATOR).map(Number);
+      extras.versions = SUPPORTED_PROTOCOL_VERSIONS.filter((version) => versions.includes(version));
+    } else if (name === "policy") {
+      extras.policyUrl = decodeURIComponent(value);
+    } else if (name === "paths") {
+      extras.paths = value.split(LIST_SEPARATOR).map((path) => {
+        const index = path.lastIndexOf(PATH_FLAGS_SEPARATOR);
+        assert(index > 0, "Invalid path features");
+
+        return {
+          pattern: decodeURIComponent(path.substring(0, index)),
+          features: decodeFlags(path.substring(index + 1)),
+        };
+      });
+    }
   }
+
+  return extras;
+}
+
+/**
+ * Picks the highest token version both sides support. Welcome headers that don't advertise
+ * their versions only accept the one in their second part.
+ */
+export function negotiateProtocolVersion(
+  welcome: WelcomeHeader,
+  supported: ReadonlyArray<PROTOCOL_VERSION> = SUPPORTED_PROTOCOL_VERSIONS
+): PROTOCOL_VERSION | undefined {
+  const common = (welcome.versions ?? [welcome.version]).filter((version) => supported.includes(version));
+  return common.length ? Math.max(...common) : undefined;
 }
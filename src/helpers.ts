@@ -42,3 +42,51 @@ export function assert(value: unknown, message: string) {
 
 export const hasFlag = (bit: number, flags: number) => (bit & flags) !== 0;
 export const setFlags = (features: FEATURE[] = []) => features.reduce((acc, feature) => acc | feature, 0);
+
+export function mergeByteArrays(arrays: (Uint8Array | Uint32Array)[]) {
+  const totalLength = arrays.reduce((sum, a) => sum + a.byteLength, 0);
+  const data = new Uint8Array(totalLength);
+
+  let offset = 0;
+  for (const arr of arrays) {
+    let bytes: Uint8Array;
+
+    if (arr instanceof Uint8Array) bytes = arr;
+    else if (arr instanceof Uint32Array) bytes = new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength);
+    else throw new Error("Unsupported type");
+
+    data.set(bytes, offset);
+    offset += bytes.byteLength;
+  }
+
+  return data;
+}
+
+// `Content-Encoding` values that `DecompressionStream` can undo
+const CONTENT_ENCODINGS = new Map<string, CompressionFormat>([
+  ["gzip", "gzip"],
+  ["x-gzip", "gzip"],
+  ["deflate", "deflate"],
+]);
+
+const encodingOf = (contentEncoding: string | null) => contentEncoding?.trim().toLowerCase() || "identity";
+
+/**
+ * Whether `decodeBody()` can read a body sent with `contentEncoding`, e.g. not Brotli.
+ */
+export function canDecodeBody(contentEncoding: string | null) {
+  const encoding = encodingOf(contentEncoding);
+  return encoding === "identity" || (CONTENT_ENCODINGS.has(encoding) && typeof DecompressionStream !== "undefined");
+}
+
+export function decodeBody(
+  body: ReadableStream<Uint8Array>,
+  contentEncoding: string | null
+): ReadableStream<Uint8Array> {
+  const encoding = encodingOf(contentEncoding);
+  if (encoding === "identity") return body;
+
+  // Typed with a `BufferSource` sink, the chunks of a body stream are bytes
+  const format = CONTENT_ENCODINGS.get(encoding)!;
+  return body.pipeThrough(new DecompressionStream(format) as TransformStream<Uint8Array, Uint8Array>);
+}
@@ -0,0 +1,38 @@
+import type { MiddlewareHandler } from "hono";
+import { createEmptyContext, TokenContext } from "./headers/client";
+import { createPathFilter, resolveSite, ZeroAdOptions } from "./middleware";
+import { setWelcomeHeaders } from "./fetch";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    tokenContext: TokenContext;
+  }
+}
+
+/**
+ * Hono middleware: sets `c.get("tokenContext")` and adds the welcome and `Vary` headers to the
+ * response. Requests filtered out by `include`/`exclude` get an empty context and no headers.
+ */
+export function zeroAd(options: ZeroAdOptions): MiddlewareHandler {
+  const site = resolveSite(options);
+  const isIncluded = createPathFilter(options);
+
+  return async function zeroAdMiddleware(c, next) {
+    if (!isIncluded(c.req.path)) {
+      c.set("tokenContext", createEmptyContext());
+      return next();
+    }
+
+    const scope = site.forRequest(c.req.path);
+    const tokenContext = await scope.parseClientToken(c.req.header(site.CLIENT_HEADER_NAME));
+    c.set("tokenContext", tokenContext);
+    await next();
+
+    c.res = setWelcomeHeaders(c.res, scope);
+    if (options.audit) c.res = options.audit.auditResponse(c.res, tokenContext, c.req.url);
+  };
+}
+
+export type { ZeroAdOptions, PathPattern } from "./middleware";
+export type { AuditFinding, AuditReport, ComplianceAuditor } from "./audit";
+export type { TokenContext } from "./headers/client";
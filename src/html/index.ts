@@ -0,0 +1,339 @@
+import type { FEATURE_ACTION, TokenContext } from "../headers/client";
+import { canDecodeBody, decodeBody } from "../helpers";
+
+/**
+ * `data-zeroad` attribute values and the token context action that removes the marked element.
+ * Several markers can be combined, e.g. `data-zeroad="ads tracking"`.
+ */
+export const ZEROAD_ELEMENT_MARKERS: Readonly<Record<string, FEATURE_ACTION>> = Object.freeze({
+  ads: "HIDE_ADVERTISEMENTS",
+  "cookie-consent": "HIDE_COOKIE_CONSENT_SCREEN",
+  marketing: "HIDE_MARKETING_DIALOGS",
+  tracking: "DISABLE_NON_FUNCTIONAL_TRACKING",
+  paywall: "DISABLE_CONTENT_PAYWALL",
+});
+
+export type HtmlRewriter = {
+  write(chunk: string): string; // Returns the rewritten output that is safe to flush so far
+  end(): string;
+};
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Inside them `/>` ends an element like in XML, HTML elements ignore it
+const FOREIGN_ELEMENTS = ["svg", "math"];
+
+// Their content is text, tags inside them must not be parsed
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+
+const SCOPE_BOUNDARIES = ["applet", "button", "caption", "html", "marquee", "object", "table", "td", "template", "th"];
+
+const P_CLOSERS = [
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "center",
+  "details",
+  "dialog",
+  "dir",
+  "div",
+  "dl",
+  "dd",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "li",
+  "listing",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "plaintext",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+  "xmp",
+];
+
+type ImpliedEndRule = { closes: string[]; boundaries: string[] };
+
+const CLOSE_P: ImpliedEndRule = { closes: ["p"], boundaries: SCOPE_BOUNDARIES };
+const CLOSE_CELLS: ImpliedEndRule = { closes: ["td", "th"], boundaries: ["table", "tr"] };
+const CLOSE_SECTIONS: ImpliedEndRule = { closes: ["tbody", "tfoot", "thead"], boundaries: ["table"] };
+
+// Start tags that end open elements whose end tag HTML allows to omit, e.g. `<li>` ends the previous `<li>`
+const IMPLIED_END_RULES: Record<string, ImpliedEndRule[]> = {
+  ...Object.fromEntries(P_CLOSERS.map((name) => [name, [CLOSE_P]])),
+  li: [{ closes: ["li"], boundaries: ["menu", "ol", "ul", ...SCOPE_BOUNDARIES] }, CLOSE_P],
+  dd: [{ closes: ["dd", "dt"], boundaries: ["dl", ...SCOPE_BOUNDARIES] }, CLOSE_P],
+  dt: [{ closes: ["dd", "dt"], boundaries: ["dl", ...SCOPE_BOUNDARIES] }, CLOSE_P],
+  option: [{ closes: ["option"], boundaries: ["datalist", "optgroup", "select"] }],
+  optgroup: [{ closes: ["optgroup", "option"], boundaries: ["datalist", "select"] }],
+  tr: [{ closes: ["tr"], boundaries: ["table", "tbody", "tfoot", "thead"] }],
+  td: [CLOSE_CELLS],
+  th: [CLOSE_CELLS],
+  tbody: [CLOSE_SECTIONS],
+  tfoot: [CLOSE_SECTIONS],
+  thead: [CLOSE_SECTIONS],
+};
+
+// Index of the outermost open element implicitly ended by a `name` start tag, or -1
+function impliedEndIndex(stack: string[], name: string) {
+  let index = -1;
+
+  for (const { closes, boundaries } of IMPLIED_END_RULES[name] ?? []) {
+    for (let i = stack.length - 1; i >= 0 && !boundaries.includes(stack[i]); i--) {
+      if (closes.includes(stack[i])) {
+        index = index === -1 ? i : Math.min(index, i);
+        break;
+      }
+    }
+  }
+
+  return index;
+}
+
+const TAG_NAME = /^<(\/?)([a-zA-Z][^\s/>]*)/;
+// A name with an optional quoted or unquoted value, quoted values may contain anything but their quote
+const ATTRIBUTE = /([^\s/>=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*)))?/g;
+
+function findTagEnd(html: string) {
+  let quote: string | undefined;
+
+  for (let i = 1; i < html.length; i++) {
+    const char = html[i];
+
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+// Value of the first `name` attribute, like browsers ignoring duplicates
+function attributeValue(tag: string, name: string) {
+  const attributes = tag.slice(TAG_NAME.exec(tag)?.[0].length ?? 0, -1);
+
+  for (const match of attributes.matchAll(ATTRIBUTE)) {
+    if (match[1].toLowerCase() === name) return match[2] ?? match[3] ?? match[4] ?? "";
+  }
+}
+
+function isMarkedForRemoval(tag: string, tokenContext: TokenContext) {
+  const value = attributeValue(tag, "data-zeroad");
+  if (!value) return false;
+
+  return value.split(/\s+/).some((marker) => tokenContext[ZEROAD_ELEMENT_MARKERS[marker.toLowerCase()]]);
+}
+
+/**
+ * Incremental HTML rewriter removing `data-zeroad` marked elements, with their content,
+ * whenever the matching token context action is enabled. Chunks may split tags anywhere.
+ */
+export function createHtmlRewriter(tokenContext: TokenContext): HtmlRewriter {
+  let buffer = "";
+  let rawText: string | undefined; // Name of the raw text element we're in
+  const stack: string[] = []; // Names of the open elements
+  let removedAt: number | undefined; // Stack index of the element being removed
+
+  // Ends every element from `index` on, along with the removal when it's one of them
+  const popTo = (index: number) => {
+    stack.length = index;
+    if (removedAt !== undefined && index <= removedAt) removedAt = undefined;
+  };
+
+  function process(final: boolean) {
+    let output = "";
+    const emit = (html: string) => {
+      if (removedAt === undefined) output += html;
+    };
+
+    while (buffer) {
+      if (rawText) {
+        const closeIndex = buffer.toLowerCase().indexOf(`</${rawText}`);
+
+        if (closeIndex === -1) {
+          // Keep a tail that could be the start of a split closing tag
+          const keep = final ? 0 : Math.min(buffer.length, rawText.length + 2);
+          emit(buffer.slice(0, buffer.length - keep));
+          buffer = buffer.slice(buffer.length - keep);
+          break;
+        }
+
+        emit(buffer.slice(0, closeIndex));
+        buffer = buffer.slice(closeIndex);
+        rawText = undefined;
+        continue;
+      }
+
+      const tagIndex = buffer.indexOf("<");
+      if (tagIndex === -1) {
+        emit(buffer);
+        buffer = "";
+        break;
+      }
+
+      emit(buffer.slice(0, tagIndex));
+      buffer = buffer.slice(tagIndex);
+
+      if (buffer.startsWith("<!--") || buffer.startsWith("<!") || buffer.startsWith("<?")) {
+        const isComment = buffer.startsWith("<!--");
+        const endIndex = isComment ? buffer.indexOf("-->", 4) : buffer.indexOf(">");
+        if (endIndex === -1) break;
+
+        const length = endIndex + (isComment ? 3 : 1);
+        emit(buffer.slice(0, length));
+        buffer = buffer.slice(length);
+        continue;
+      }
+
+      const nameMatch = TAG_NAME.exec(buffer);
+      if (!nameMatch) {
+        if (buffer.length < 3 && !final) break; // "<" or "</" may still become a tag
+
+        emit("<");
+        buffer = buffer.slice(1);
+        continue;
+      }
+
+      const endIndex = findTagEnd(buffer);
+      if (endIndex === -1) break;
+
+      const tag = buffer.slice(0, endIndex + 1);
+      const isClosing = nameMatch[1] === "/";
+      const name = nameMatch[2].toLowerCase();
+      const isForeign = [name, ...stack].some((open) => FOREIGN_ELEMENTS.includes(open));
+      const isVoid = VOID_ELEMENTS.has(name) || (isForeign && tag.endsWith("/>"));
+      buffer = buffer.slice(endIndex + 1);
+
+      if (isClosing) {
+        // Ending an ancestor also ends the removed element, the ancestor's end tag is kept
+        const index = stack.lastIndexOf(name);
+        const isRemoved = removedAt !== undefined && index >= removedAt;
+
+        if (index !== -1) popTo(index);
+        if (!isRemoved) emit(tag);
+      } else {
+        const index = impliedEndIndex(stack, name);
+        if (index !== -1) popTo(index);
+
+        if (removedAt === undefined && isMarkedForRemoval(tag, tokenContext)) {
+          if (!isVoid) removedAt = stack.length;
+        } else {
+          emit(tag);
+        }
+
+        if (!isVoid) stack.push(name);
+      }
+
+      if (!isClosing && !isVoid && !isForeign && RAW_TEXT_ELEMENTS.has(name)) rawText = name;
+    }
+
+    if (final) {
+      emit(buffer);
+      buffer = "";
+    }
+
+    return output;
+  }
+
+  return {
+    write(chunk) {
+      buffer += chunk;
+      return process(false);
+    },
+
+    end() {
+      return process(true);
+    },
+  };
+}
+
+export function rewriteHtml(html: string, tokenContext: TokenContext): string {
+  const rewriter = createHtmlRewriter(tokenContext);
+  return rewriter.write(html) + rewriter.end();
+}
+
+/**
+ * Web `TransformStream` rewriting a UTF-8 HTML byte (or string) stream, e.g. `response.body.pipeThrough(...)`.
+ */
+export function createHtmlRewriterStream(tokenContext: TokenContext): TransformStream<Uint8Array | string, Uint8Array> {
+  const rewriter = createHtmlRewriter(tokenContext);
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+
+  const enqueue = (controller: TransformStreamDefaultController<Uint8Array>, html: string) => {
+    if (html) controller.enqueue(encoder.encode(html));
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      enqueue(controller, rewriter.write(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })));
+    },
+
+    flush(controller) {
+      enqueue(controller, rewriter.write(decoder.decode()) + rewriter.end());
+    },
+  });
+}
+
+/**
+ * Rewrites the body of an HTML `Response`, gzip and deflate encoded ones are sent decoded. Other
+ * responses, and encodings that can't be decoded here (e.g. Brotli), are returned untouched.
+ */
+export function rewriteHtmlResponse(response: Response, tokenContext: TokenContext): Response {
+  const contentEncoding = response.headers.get("Content-Encoding");
+  if (
+    !response.body ||
+    !response.headers.get("Content-Type")?.includes("text/html") ||
+    !canDecodeBody(contentEncoding)
+  ) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Encoding");
+  headers.delete("Content-Length");
+
+  const body = decodeBody(response.body, contentEncoding);
+  return new Response(body.pipeThrough(createHtmlRewriterStream(tokenContext)), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
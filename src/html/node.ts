@@ -0,0 +1,22 @@
+import { Transform } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+import type { TokenContext } from "../headers/client";
+import { createHtmlRewriter } from "./index";
+
+/**
+ * Node.js `Transform` stream counterpart of `createHtmlRewriterStream()`, e.g. `html.pipe(transform).pipe(res)`.
+ */
+export function createHtmlRewriterTransform(tokenContext: TokenContext): Transform {
+  const rewriter = createHtmlRewriter(tokenContext);
+  const decoder = new StringDecoder("utf8");
+
+  return new Transform({
+    transform(chunk: Buffer | string, _encoding, callback) {
+      callback(null, rewriter.write(typeof chunk === "string" ? chunk : decoder.write(chunk)) || undefined);
+    },
+
+    flush(callback) {
+      callback(null, rewriter.write(decoder.end()) + rewriter.end() || undefined);
+    },
+  });
+}
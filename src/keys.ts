@@ -0,0 +1,62 @@
+import { ZEROAD_NETWORK_PUBLIC_KEY } from "./constants";
+import { getCryptoBackend } from "./backend";
+
+/**
+ * A public key trusted to sign `X-Better-Web-Hello` header values.
+ * Keys outside of their `notBefore`/`notAfter` window are skipped, which allows
+ * shipping the next key ahead of a rotation and retiring the previous one on schedule.
+ */
+export type TrustedPublicKey = {
+  publicKey: string; // base64 encoded SPKI DER
+  id?: string;
+  notBefore?: Date;
+  notAfter?: Date;
+};
+
+export type VerifiedKey = {
+  publicKey: string;
+  id?: string;
+  notAfter?: number; // Unix timestamp in milliseconds
+};
+
+export const ZEROAD_NETWORK_TRUSTED_KEYS: ReadonlyArray<TrustedPublicKey> = Object.freeze([
+  Object.freeze({ publicKey: ZEROAD_NETWORK_PUBLIC_KEY }),
+]);
+
+export function isKeyActive(key: TrustedPublicKey, now: number) {
+  return (!key.notBefore || key.notBefore.getTime() <= now) && (!key.notAfter || key.notAfter.getTime() > now);
+}
+
+/**
+ * Active keys in the order they should be tried. Keys matching the `keyId` hint come first,
+ * the rest are still tried in case the hint is stale.
+ */
+export function selectTrustedKeys(keys: ReadonlyArray<TrustedPublicKey>, now: number, keyId?: string) {
+  const active = keys.filter((key) => isKeyActive(key, now));
+  if (!keyId) return active;
+
+  return [...active.filter((key) => key.id === keyId), ...active.filter((key) => key.id !== keyId)];
+}
+
+/**
+ * Resolves with the first key that verifies the signature, or `undefined` when none does.
+ */
+export async function verifyWithTrustedKeys(
+  data: ArrayBuffer,
+  signature: ArrayBuffer,
+  keys: ReadonlyArray<TrustedPublicKey>,
+  now: number,
+  keyId?: string
+): Promise<VerifiedKey | undefined> {
+  const { verify } = getCryptoBackend();
+
+  for (const key of selectTrustedKeys(keys, now, keyId)) {
+    if (await verify(data, signature, key.publicKey)) {
+      return {
+        publicKey: key.publicKey,
+        ...(key.id && { id: key.id }),
+        ...(key.notAfter && { notAfter: key.notAfter.getTime() }),
+      };
+    }
+  }
+}
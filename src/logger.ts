@@ -1,5 +1,8 @@
 /* eslint-disable no-console */
-type LogLevel = "error" | "warn" | "info" | "debug";
+import type { AuditFinding } from "./audit";
+import type { CacheConfig } from "./headers/client/cache";
+
+export type LogLevel = "error" | "warn" | "info" | "debug";
 
 const levels: Record<LogLevel, number> = {
   error: 0,
@@ -8,7 +11,111 @@ const levels: Record<LogLevel, number> = {
   debug: 3,
 };
 
+/**
+ * Stable event codes and their messages. Codes never change, messages may be reworded.
+ */
+export const LOG_EVENTS = Object.freeze({
+  CLIENT_HEADER_INVALID: "Could not decode client header value",
+  SERVER_HEADER_INVALID: "Could not decode server header value",
+  FORWARDED_CONTEXT_INVALID: "Could not decode forwarded context",
+  TOKEN_CONTEXT_INVALID: "Could not parse token context",
+  CACHE_CONFIGURED: "Cache configuration updated",
+  CACHE_READ_FAILED: "Could not read from token cache store",
+  CACHE_WRITE_FAILED: "Could not write to token cache store",
+  REPLAY_RECORD_FAILED: "Could not record token usage",
+  AUDIT_FINDINGS: "Compliance audit found markup that must not be served",
+  AUDIT_FAILED: "Compliance audit failed",
+  NEXT_SECRET_MISSING:
+    "No shared secret set, forwarded token contexts won't verify outside of the runtime signing them",
+});
+
+export type LogCode = keyof typeof LOG_EVENTS;
+
+type Reason = { reason?: string };
+
+export type LogFields = {
+  CLIENT_HEADER_INVALID: Reason;
+  SERVER_HEADER_INVALID: Reason;
+  FORWARDED_CONTEXT_INVALID: Reason;
+  TOKEN_CONTEXT_INVALID: Reason;
+  CACHE_CONFIGURED: CacheConfig;
+  CACHE_READ_FAILED: Reason;
+  CACHE_WRITE_FAILED: Reason;
+  REPLAY_RECORD_FAILED: Reason;
+  AUDIT_FINDINGS: { url?: string; findings: AuditFinding[] };
+  AUDIT_FAILED: Reason & { url?: string };
+  NEXT_SECRET_MISSING: { env: string };
+};
+
+export type LogRecord<C extends LogCode = LogCode> = {
+  time: string; // ISO 8601
+  level: LogLevel;
+  code: C;
+  message: string;
+  fields: LogFields[C];
+  scope?: Record<string, string>; // e.g. the `clientId` of the `Site` that logged it
+  suppressed?: number; // Records with this code dropped by the rate limit since the previous one
+};
+
+export type LogSink = (record: LogRecord) => void;
+
+export type LogRateLimit = {
+  limit: number; // Records per code and interval
+  interval: number; // Milliseconds
+};
+
+export type LoggerOptions = {
+  level?: LogLevel; // Defaults to the global `setLogLevel()` level
+  sink?: LogSink; // Defaults to the global `setLogSink()` sink
+  rateLimit?: LogRateLimit | false; // Defaults to 100 records per code and minute
+  scope?: Record<string, string>;
+};
+
+export type Logger = {
+  log<C extends LogCode>(level: LogLevel, code: C, fields: LogFields[C]): void;
+};
+
+const DEFAULT_RATE_LIMIT: LogRateLimit = { limit: 100, interval: 60_000 };
+
+const CONSOLE_METHODS = { error: "error", warn: "warn", info: "info", debug: "debug" } as const;
+
+/**
+ * Writes every record as a single JSON line, by default to the console method matching its level.
+ */
+export function createJsonLinesSink(write?: (line: string, level: LogLevel) => void): LogSink {
+  return (record) => {
+    const line = JSON.stringify(record);
+
+    if (write) write(line, record.level);
+    else console[CONSOLE_METHODS[record.level]](line);
+  };
+}
+
+const flatten = (record: LogRecord) => ({
+  code: record.code,
+  ...record.scope,
+  ...record.fields,
+  ...(record.suppressed && { suppressed: record.suppressed }),
+});
+
+/**
+ * Loggers with pino's `logger.warn(object, message)` signature.
+ */
+export function createPinoSink(logger: Record<LogLevel, (object: object, message: string) => void>): LogSink {
+  return (record) => logger[record.level](flatten(record), record.message);
+}
+
+/**
+ * Loggers with winston's `logger.log({ level, message, ...meta })` signature.
+ */
+export function createWinstonSink(logger: {
+  log(entry: { level: string; message: string; [key: string]: unknown }): void;
+}): LogSink {
+  return (record) => logger.log({ level: record.level, message: record.message, ...flatten(record) });
+}
+
 let currentLevel: LogLevel = "error";
+let currentSink: LogSink = createJsonLinesSink();
 
 export function setLogLevel(level: LogLevel): void {
   if (levels[level] !== undefined) {
@@ -16,18 +123,77 @@ export function setLogLevel(level: LogLevel): void {
   }
 }
 
-type LogTransport = (level: LogLevel, ...args: unknown[]) => void;
+export function setLogSink(sink: LogSink): void {
+  currentSink = sink;
+}
 
-let transport: LogTransport = (level, ...args) => {
-  console.log(`[${level.toUpperCase()}]`, ...args);
-};
+type LogTransport = (level: LogLevel, ...args: unknown[]) => void;
 
+/**
+ * Legacy variant of `setLogSink()`, `fn` is called with the level, message and fields of each record.
+ */
 export function setLogTransport(fn: LogTransport): void {
-  transport = fn;
+  currentSink = (record) => fn(record.level, record.message, { code: record.code, ...record.fields });
 }
 
-export function log(level: LogLevel, ...args: unknown[]): void {
-  if (levels[level] <= levels[currentLevel]) {
-    transport(level, ...args);
-  }
+function createRateLimiter({ limit, interval }: LogRateLimit) {
+  const windows = new Map<LogCode, { start: number; count: number; suppressed: number }>();
+
+  // Resolves with the number of records suppressed before this one, or `false` to drop it
+  return (code: LogCode, now: number): number | false => {
+    let window = windows.get(code);
+    let suppressed = 0;
+
+    if (!window || now - window.start >= interval) {
+      suppressed = window?.suppressed ?? 0;
+      window = { start: now, count: 0, suppressed: 0 };
+      windows.set(code, window);
+    }
+
+    if (window.count >= limit) {
+      window.suppressed++;
+      return false;
+    }
+
+    window.count++;
+    return suppressed;
+  };
+}
+
+/**
+ * A logger with its own level, sink, rate limit and scope, e.g. one per `Site`.
+ * Unset options follow the global `setLogLevel()` and `setLogSink()` configuration.
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const rateLimit =
+    options.rateLimit === false ? undefined : createRateLimiter(options.rateLimit ?? DEFAULT_RATE_LIMIT);
+
+  return {
+    log(level, code, fields) {
+      if (levels[level] > levels[options.level ?? currentLevel]) return;
+
+      const suppressed = rateLimit ? rateLimit(code, Date.now()) : 0;
+      if (suppressed === false) return;
+
+      try {
+        (options.sink ?? currentSink)({
+          time: new Date().toISOString(),
+          level,
+          code,
+          message: LOG_EVENTS[code],
+          fields,
+          ...(options.scope && { scope: options.scope }),
+          ...(suppressed && { suppressed }),
+        });
+      } catch {
+        // A failing sink must never break token parsing
+      }
+    },
+  };
+}
+
+export const defaultLogger: Logger = createLogger();
+
+export function log<C extends LogCode>(level: LogLevel, code: C, fields: LogFields[C]): void {
+  defaultLogger.log(level, code, fields);
 }
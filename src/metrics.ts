@@ -0,0 +1,245 @@
+import type { ClientTokenStatus } from "./headers/client";
+
+export type CacheEvictionReason = "capacity" | "expired";
+
+export type MetricsEvent =
+  | { type: "parse"; status: ClientTokenStatus; cached: boolean }
+  | { type: "verification"; status: ClientTokenStatus; duration: number } // Milliseconds, cache misses only
+  | { type: "cache_hit" }
+  | { type: "cache_miss" }
+  | { type: "cache_eviction"; reason: CacheEvictionReason };
+
+/**
+ * Receives every metrics event, must not throw and should return quickly.
+ */
+export type MetricsRecorder = (event: MetricsEvent) => void;
+
+export type HistogramSnapshot = {
+  buckets: { le: number; count: number }[]; // Cumulative counts, upper bounds in milliseconds
+  sum: number;
+  count: number;
+};
+
+export type MetricsSnapshot = {
+  parses: number;
+  statuses: Record<ClientTokenStatus, number>; // Parse outcomes, everything but `valid` is a rejection reason
+  cache: {
+    hits: number;
+    misses: number;
+    evictions: Record<CacheEvictionReason, number>;
+  };
+  verification: HistogramSnapshot;
+};
+
+export type MetricsCollector = {
+  record: MetricsRecorder;
+  snapshot(): MetricsSnapshot;
+  reset(): void;
+};
+
+export type MetricsCollectorOptions = {
+  buckets?: number[]; // Verification latency bucket upper bounds in milliseconds
+};
+
+export const DEFAULT_LATENCY_BUCKETS = Object.freeze([0.1, 0.25, 0.5, 1, 2.5, 5, 10, 25, 50, 100]);
+
+const STATUSES: ReadonlyArray<ClientTokenStatus> = [
+  "valid",
+  "missing",
+  "malformed",
+  "bad_signature",
+  "unsupported_version",
+  "expired",
+  "client_mismatch",
+];
+
+/**
+ * Aggregates metrics events into counters and a latency histogram, as exposed by `site.getStats()`.
+ */
+export function createMetricsCollector(options: MetricsCollectorOptions = {}): MetricsCollector {
+  const bounds = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+
+  let parses = 0;
+  let statuses: Record<ClientTokenStatus, number>;
+  let cache: MetricsSnapshot["cache"];
+  let bucketCounts: number[];
+  let sum = 0;
+  let count = 0;
+
+  function reset() {
+    parses = sum = count = 0;
+    statuses = Object.fromEntries(STATUSES.map((status) => [status, 0])) as Record<ClientTokenStatus, number>;
+    cache = { hits: 0, misses: 0, evictions: { capacity: 0, expired: 0 } };
+    bucketCounts = bounds.map(() => 0);
+  }
+
+  reset();
+
+  return {
+    record(event) {
+      switch (event.type) {
+        case "parse":
+          parses++;
+          statuses[event.status]++;
+          break;
+        case "verification": {
+          sum += event.duration;
+          count++;
+
+          const index = bounds.findIndex((bound) => event.duration <= bound);
+          if (index !== -1) bucketCounts[index]++;
+          break;
+        }
+        case "cache_hit":
+          cache.hits++;
+          break;
+        case "cache_miss":
+          cache.misses++;
+          break;
+        case "cache_eviction":
+          cache.evictions[event.reason]++;
+          break;
+      }
+    },
+
+    snapshot() {
+      let cumulative = 0;
+
+      return {
+        parses,
+        statuses: { ...statuses },
+        cache: { ...cache, evictions: { ...cache.evictions } },
+        verification: {
+          buckets: bounds.map((le, i) => ({ le, count: (cumulative += bucketCounts[i]) })),
+          sum,
+          count,
+        },
+      };
+    },
+
+    reset,
+  };
+}
+
+export type LabeledMetrics = {
+  stats: MetricsSnapshot;
+  labels: Record<string, string>;
+};
+
+export type PrometheusOptions = {
+  prefix?: string; // Defaults to `zeroad`
+};
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+function formatLabels(labels: Record<string, string>) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Renders stats in the Prometheus text exposition format. Pass several labeled snapshots,
+ * e.g. one per `Site`, to expose them from a single endpoint.
+ */
+export function formatPrometheus(stats: MetricsSnapshot | LabeledMetrics[], options: PrometheusOptions = {}): string {
+  const prefix = options.prefix ?? "zeroad";
+  const sources = Array.isArray(stats) ? stats : [{ stats, labels: {} }];
+  const lines: string[] = [];
+
+  const metric = (
+    name: string,
+    type: "counter" | "histogram",
+    help: string,
+    samples: (source: LabeledMetrics) => [string, Record<string, string>, number][]
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+
+    for (const source of sources) {
+      for (const [suffix, labels, value] of samples(source)) {
+        lines.push(`${prefix}_${name}${suffix}${formatLabels({ ...source.labels, ...labels })} ${value}`);
+      }
+    }
+  };
+
+  metric("token_parses_total", "counter", "Client token parses by outcome.", ({ stats }) =>
+    STATUSES.map((status) => ["", { status }, stats.statuses[status]])
+  );
+  metric("cache_hits_total", "counter", "Token cache hits.", ({ stats }) => [["", {}, stats.cache.hits]]);
+  metric("cache_misses_total", "counter", "Token cache misses.", ({ stats }) => [["", {}, stats.cache.misses]]);
+  metric("cache_evictions_total", "counter", "Token cache evictions by reason.", ({ stats }) =>
+    Object.entries(stats.cache.evictions).map(([reason, value]) => ["", { reason }, value])
+  );
+  metric("token_verification_seconds", "histogram", "Client token signature verification latency.", ({ stats }) => [
+    ...stats.verification.buckets.map(({ le, count }): [string, Record<string, string>, number] => [
+      "_bucket",
+      { le: String(le / 1000) },
+      count,
+    ]),
+    ["_bucket", { le: "+Inf" }, stats.verification.count],
+    ["_sum", {}, stats.verification.sum / 1000],
+    ["_count", {}, stats.verification.count],
+  ]);
+
+  return `${lines.join("\n")}\n`;
+}
+
+type Attributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of an OpenTelemetry `Meter` used by `createOpenTelemetryRecorder()`.
+ */
+export type OpenTelemetryMeter = {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): {
+    add(value: number, attributes?: Attributes): void;
+  };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): {
+    record(value: number, attributes?: Attributes): void;
+  };
+};
+
+export type OpenTelemetryRecorderOptions = {
+  prefix?: string; // Defaults to `zeroad`
+  attributes?: Attributes; // Added to every measurement, e.g. `{ site: "blog" }`
+};
+
+/**
+ * Forwards metrics events to an OpenTelemetry meter, e.g. `metrics.getMeter("zeroad")` from
+ * `@opentelemetry/api`, which is not a dependency of this package.
+ */
+export function createOpenTelemetryRecorder(
+  meter: OpenTelemetryMeter,
+  options: OpenTelemetryRecorderOptions = {}
+): MetricsRecorder {
+  const prefix = options.prefix ?? "zeroad";
+  const attributes = options.attributes ?? {};
+
+  const parses = meter.createCounter(`${prefix}.token.parses`, { description: "Client token parses by outcome" });
+  const hits = meter.createCounter(`${prefix}.cache.hits`, { description: "Token cache hits" });
+  const misses = meter.createCounter(`${prefix}.cache.misses`, { description: "Token cache misses" });
+  const evictions = meter.createCounter(`${prefix}.cache.evictions`, { description: "Token cache evictions" });
+  const verification = meter.createHistogram(`${prefix}.token.verification.duration`, {
+    description: "Client token signature verification latency",
+    unit: "ms",
+  });
+
+  return (event) => {
+    switch (event.type) {
+      case "parse":
+        return parses.add(1, { ...attributes, status: event.status, cached: event.cached });
+      case "verification":
+        return verification.record(event.duration, { ...attributes, status: event.status });
+      case "cache_hit":
+        return hits.add(1, attributes);
+      case "cache_miss":
+        return misses.add(1, attributes);
+      case "cache_eviction":
+        return evictions.add(1, { ...attributes, reason: event.reason });
+    }
+  };
+}
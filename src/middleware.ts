@@ -0,0 +1,56 @@
+import { Site, SiteInstance, SiteOptions } from "./site";
+import type { ComplianceAuditor } from "./audit";
+import { compilePathPattern, normalizePath, PathPattern, PathPatternOptions } from "./paths";
+
+export type { PathPattern } from "./paths";
+export { pathOf } from "./paths";
+
+export type PathFilterOptions = {
+  include?: PathPattern | PathPattern[]; // Only these paths are handled, defaults to all paths
+  exclude?: PathPattern | PathPattern[]; // Takes precedence over `include`
+  caseSensitivePaths?: boolean; // String patterns ignore case by default, like Express routes
+};
+
+/**
+ * Framework integrations accept either `Site()` options or an existing `Site` instance.
+ */
+export type ZeroAdOptions = (SiteOptions | { site: SiteInstance }) &
+  PathFilterOptions & {
+    audit?: ComplianceAuditor; // Audits HTML responses served to users with an active subscription
+  };
+
+export function resolveSite(options: ZeroAdOptions): SiteInstance {
+  return "site" in options ? options.site : Site(options);
+}
+
+const toMatchers = (patterns: PathPattern | PathPattern[] | undefined, options: PathPatternOptions) =>
+  (patterns === undefined ? [] : Array.isArray(patterns) ? patterns : [patterns]).map((pattern) =>
+    compilePathPattern(pattern, options)
+  );
+
+export function createPathFilter(options: PathFilterOptions): (path: string) => boolean {
+  const patternOptions = { caseSensitive: options.caseSensitivePaths };
+  const include = toMatchers(options.include, patternOptions);
+  const exclude = toMatchers(options.exclude, patternOptions);
+
+  return (rawPath) => {
+    const path = normalizePath(rawPath);
+    return (!include.length || include.some((matches) => matches(path))) && !exclude.some((matches) => matches(path));
+  };
+}
+
+/**
+ * Adds `field` to a `Vary` header value unless it's already listed.
+ */
+export function appendVary(value: string | undefined, field: string): string {
+  const fields = (value ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  if (fields.includes("*") || fields.some((part) => part.toLowerCase() === field.toLowerCase())) {
+    return fields.join(", ");
+  }
+
+  return [...fields, field].join(", ");
+}
@@ -0,0 +1,127 @@
+import { createEmptyContext, TokenContext } from "./context";
+import { appendVary, createPathFilter, resolveSite, ZeroAdOptions } from "./middleware";
+import { CLIENT_HEADER } from "./constants";
+import { decodeForwardedContext, encodeForwardedContext, FORWARDED_CONTEXT_HEADER } from "./headers/forwarded";
+import { getCryptoBackend } from "./backend";
+import { toBase64 } from "./helpers";
+import { log } from "./logger";
+
+export { FORWARDED_CONTEXT_HEADER };
+
+const SECRET_ENV = "ZEROAD_NEXT_SECRET";
+
+export type NextSecretOptions = {
+  secret?: string; // Defaults to the `ZEROAD_NEXT_SECRET` environment variable, one of them is required
+};
+
+export type ZeroAdNextOptions = ZeroAdOptions & NextSecretOptions;
+
+export type GetTokenContextOptions = NextSecretOptions & {
+  clientId?: string; // Only accept contexts forwarded for this site
+};
+
+export type HeaderSource =
+  | Pick<Headers, "get">
+  | { headers: Pick<Headers, "get"> } // `Request` or `NextRequest`
+  | { headers: Record<string, string | string[] | undefined> }; // Pages Router `req`
+
+let processSecret: string | undefined;
+
+function resolveSecret(options: NextSecretOptions) {
+  const env = typeof process !== "undefined" ? process.env : undefined;
+  const secret = options.secret ?? env?.[SECRET_ENV];
+  if (secret) return secret;
+
+  // The middleware and the routes are separate bundles, each would sign with its own per-process secret
+  if (env?.NODE_ENV !== "development") {
+    throw new Error(`Set the \`${SECRET_ENV}\` environment variable or the \`secret\` option`);
+  }
+
+  if (!processSecret) {
+    processSecret = toBase64(getCryptoBackend().nonce(32));
+    log("error", "NEXT_SECRET_MISSING", { env: SECRET_ENV });
+  }
+
+  return processSecret;
+}
+
+/**
+ * Same response as `NextResponse.next({ request: { headers } })`: continues to the route and
+ * replaces the request headers it sees.
+ */
+function nextWithRequestHeaders(headers: Headers) {
+  const response = new Response(null, { headers: { "x-middleware-next": "1" } });
+  const names: string[] = [];
+
+  headers.forEach((value, name) => {
+    names.push(name);
+    response.headers.set(`x-middleware-request-${name}`, value);
+  });
+  response.headers.set("x-middleware-override-headers", names.join(","));
+
+  return response;
+}
+
+/**
+ * Next.js `middleware.ts` handler: verifies the token with the WebCrypto backend, sends the welcome
+ * header and forwards the context to the route in a short-lived signed request header
+ * (see `encodeForwardedContext()`).
+ * Paths filtered out by `include`/`exclude` are forwarded without a context.
+ */
+export function createZeroAdMiddleware(options: ZeroAdNextOptions): (request: Request) => Promise<Response> {
+  const site = resolveSite(options);
+  const isIncluded = createPathFilter(options);
+
+  return async (request) => {
+    const headers = new Headers(request.headers);
+    headers.delete(FORWARDED_CONTEXT_HEADER);
+
+    const path = new URL(request.url).pathname;
+    if (!isIncluded(path)) return nextWithRequestHeaders(headers);
+
+    const scope = site.forRequest(path);
+    const tokenContext = await scope.parseClientToken(request.headers.get(site.CLIENT_HEADER_NAME) ?? undefined);
+    const forwarded = await encodeForwardedContext(
+      { tokenContext, clientId: site.clientId },
+      { secret: resolveSecret(options) }
+    );
+    headers.set(FORWARDED_CONTEXT_HEADER, forwarded);
+
+    const response = nextWithRequestHeaders(headers);
+    response.headers.set(scope.SERVER_HEADER_NAME, scope.SERVER_HEADER_VALUE);
+    response.headers.set("Vary", appendVary(undefined, CLIENT_HEADER.HELLO));
+
+    return response;
+  };
+}
+
+function forwardedValue(source: HeaderSource) {
+  if ("get" in source) return source.get(FORWARDED_CONTEXT_HEADER);
+  if (typeof source.headers.get === "function") return source.headers.get(FORWARDED_CONTEXT_HEADER);
+
+  const value = (source.headers as Record<string, string | string[] | undefined>)[FORWARDED_CONTEXT_HEADER];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Reads the context forwarded by `createZeroAdMiddleware()`: pass `await headers()` in server
+ * components, the `request` in route handlers or `req` in `getServerSideProps`. All actions are
+ * disabled when the header is missing, expired or not signed with the same secret. Throws when no
+ * secret is set, outside of development.
+ */
+export async function getTokenContext(
+  source: HeaderSource,
+  options: GetTokenContextOptions = {}
+): Promise<TokenContext> {
+  const decoded = await decodeForwardedContext(forwardedValue(source), { secret: resolveSecret(options) });
+
+  const clientMismatch = options.clientId !== undefined && decoded?.clientId !== options.clientId;
+  if (!decoded || decoded.expiresAt.getTime() < Date.now() || clientMismatch) {
+    return createEmptyContext();
+  }
+
+  return decoded.tokenContext;
+}
+
+export type { ZeroAdOptions, PathPattern } from "./middleware";
+export type { TokenContext, FEATURE_ACTION } from "./context";
@@ -0,0 +1,45 @@
+/**
+ * Strings match the path itself and everything below it, or the whole path when they contain a `*`
+ * wildcard (matching any characters, including `/`; a trailing `/*` also matches the path without it).
+ * RegExps and predicates are used as is. Every pattern sees paths normalized by `normalizePath()`.
+ */
+export type PathPattern = string | RegExp | ((path: string) => boolean);
+
+export type PathPatternOptions = {
+  caseSensitive?: boolean; // String patterns ignore case by default, like Express routes
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function compilePathPattern(pattern: PathPattern, options: PathPatternOptions = {}): (path: string) => boolean {
+  if (typeof pattern === "function") return pattern;
+  if (pattern instanceof RegExp) return (path) => pattern.test(path);
+
+  const flags = options.caseSensitive ? "" : "i";
+
+  if (pattern.includes("*")) {
+    const [base, rest] = pattern.endsWith("/*") ? [pattern.slice(0, -2), "(?:/.*)?"] : [pattern, ""];
+    const glob = new RegExp(`^${base.split("*").map(escapeRegExp).join(".*")}${rest}$`, flags);
+    return (path) => glob.test(path);
+  }
+
+  const prefix = pattern.endsWith("/") ? pattern.slice(0, -1) : pattern;
+  const below = new RegExp(`^${escapeRegExp(prefix)}(?:/|$)`, flags);
+  return (path) => below.test(path);
+}
+
+export const pathOf = (url: string | undefined) => (url ?? "/").split("?")[0] || "/";
+
+/**
+ * Resolves the path the way servers do before routing: repeated slashes are collapsed, `.` and `..`
+ * segments resolved and percent-escapes decoded, so `//a/./%62` matches patterns for `/a/b`.
+ */
+export function normalizePath(path: string): string {
+  const { pathname } = new URL(path.replace(/[/\\]{2,}/g, "/"), "http://localhost");
+
+  try {
+    return decodeURIComponent(pathname).replace(/\/{2,}/g, "/");
+  } catch {
+    return pathname; // Malformed escapes, e.g. `%E0`
+  }
+}
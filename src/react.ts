@@ -0,0 +1,75 @@
+import {
+  createContext,
+  createElement,
+  Fragment,
+  ReactNode,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { createEmptyContext, FEATURE_ACTION, TokenContext } from "./context";
+import { createTokenContextStore, TokenContextStore } from "./store";
+import { parseTokenContext, readTokenContext } from "./dom";
+import { checkFeatureActions, GuardMode } from "./guard";
+
+const EMPTY_STORE = createTokenContextStore();
+
+const ZeroAdContext = createContext<TokenContextStore>(EMPTY_STORE);
+
+export type ZeroAdProviderProps = {
+  /**
+   * Server resolved context, e.g. from `getServerSideProps`, or its `serializeTokenContext()` JSON.
+   * Defaults to the page bootstrap rendered by `renderTokenContextScript()`/`renderTokenContextMeta()`.
+   */
+  tokenContext?: TokenContext | string;
+  store?: TokenContextStore; // Share an existing store, e.g. `getTokenContextStore()` from the browser SDK
+  children?: ReactNode;
+};
+
+function resolveInitialContext(tokenContext: TokenContext | string | undefined) {
+  if (typeof tokenContext === "string") return parseTokenContext(tokenContext);
+  return tokenContext ?? (typeof document !== "undefined" ? readTokenContext(document) : undefined);
+}
+
+export function ZeroAdProvider({ tokenContext, store, children }: ZeroAdProviderProps) {
+  const [ownStore] = useState(() => store ?? createTokenContextStore(resolveInitialContext(tokenContext)));
+  const value = store ?? ownStore;
+
+  // Later prop changes (e.g. client-side navigation) update subscribers
+  useEffect(() => {
+    const next = typeof tokenContext === "string" ? parseTokenContext(tokenContext) : tokenContext;
+    if (next) value.set(next);
+  }, [value, tokenContext]);
+
+  return createElement(ZeroAdContext.Provider, { value }, children);
+}
+
+/**
+ * Current `TokenContext`; all actions are disabled outside of a `ZeroAdProvider`.
+ */
+export function useTokenContext(): TokenContext {
+  const store = useContext(ZeroAdContext);
+  return useSyncExternalStore(store.subscribe, store.get, store.get);
+}
+
+export type ZeroAdGateProps = {
+  action: FEATURE_ACTION | FEATURE_ACTION[];
+  mode?: GuardMode; // With several actions: require "all" (default) or "any" of them
+  fallback?: ReactNode; // Rendered while the action is not enabled
+  children?: ReactNode; // Rendered once the action is enabled
+};
+
+/**
+ * Renders `children` when the token context enables `action`, and `fallback` otherwise. E.g.
+ * `<ZeroAdGate action="HIDE_ADVERTISEMENTS" fallback={<AdBanner />} />` only shows ads to
+ * visitors without a subscription.
+ */
+export function ZeroAdGate({ action, mode, fallback = null, children = null }: ZeroAdGateProps) {
+  const tokenContext = useTokenContext();
+  return createElement(Fragment, null, checkFeatureActions(tokenContext, action, mode) ? fallback : children);
+}
+
+export { createEmptyContext };
+export type { FEATURE_ACTION, TokenContext } from "./context";
+export type { TokenContextStore } from "./store";
@@ -0,0 +1,177 @@
+import { getCryptoBackend, hmac } from "./backend";
+import { decodeClientHeader, inspectClientHeader } from "./headers/client";
+import { TrustedPublicKey, ZEROAD_NETWORK_TRUSTED_KEYS } from "./keys";
+import { toBase64 } from "./helpers";
+import { log } from "./logger";
+
+/**
+ * Storage for the hashed fingerprints seen per token and time window.
+ * Every method may return a Promise, so implementations can be backed by shared stores (Redis, etc.).
+ */
+export interface ReplayStore {
+  // Adds `fingerprint` to the set stored under `key` and resolves with the number of distinct fingerprints in it
+  add(key: string, fingerprint: string, ttl: number): number | Promise<number>;
+  clear(): void | Promise<void>;
+}
+
+export type MemoryReplayStoreOptions = {
+  maxKeys?: number; // Oldest windows are dropped first, defaults to 10000
+  maxFingerprints?: number; // Per window, further fingerprints are not counted, defaults to 64
+};
+
+type ReplayWindow = {
+  fingerprints: Set<string>;
+  expiresAt: number;
+};
+
+// Upper bound of expired windows removed per insert, keeps `add()` O(1) amortized
+const EXPIRY_SWEEP_LIMIT = 8;
+
+/**
+ * In-process store holding at most `maxKeys * maxFingerprints` hashes.
+ */
+export function createMemoryReplayStore(options: MemoryReplayStoreOptions = {}): ReplayStore {
+  const maxKeys = options.maxKeys ?? 10_000;
+  const maxFingerprints = options.maxFingerprints ?? 64;
+  const windows = new Map<string, ReplayWindow>();
+
+  function sweep(now: number) {
+    let limit = EXPIRY_SWEEP_LIMIT;
+
+    // `Map` iterates in insertion order, so the oldest windows come first
+    for (const [key, window] of windows) {
+      if ((window.expiresAt > now && windows.size <= maxKeys) || limit-- <= 0) break;
+      windows.delete(key);
+    }
+  }
+
+  return {
+    add(key, fingerprint, ttl) {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.expiresAt <= now) {
+        windows.delete(key);
+        window = { fingerprints: new Set(), expiresAt: now + ttl };
+        windows.set(key, window);
+        sweep(now);
+      }
+
+      if (window.fingerprints.size < maxFingerprints) window.fingerprints.add(fingerprint);
+
+      return window.fingerprints.size;
+    },
+
+    clear() {
+      windows.clear();
+    },
+  };
+}
+
+export type ReplayFingerprint = {
+  ip?: string;
+  userAgent?: string;
+};
+
+export type ReplayEvent = {
+  token: string; // Hash of the token nonce and expiry, stable for the lifetime of the monitor salt
+  fingerprints: number; // Distinct fingerprints seen in the current window
+  threshold: number;
+  windowStart: Date;
+  expiresAt: Date; // Token expiry
+};
+
+export type ReplayObservation = ReplayEvent & {
+  exceeded: boolean;
+};
+
+export type ReplayMonitorOptions = {
+  threshold?: number; // Distinct fingerprints allowed per token and window, defaults to 5
+  window?: number; // Milliseconds, defaults to 10 minutes
+  store?: ReplayStore; // Defaults to a `createMemoryReplayStore()` counting past `threshold`
+  salt?: string; // Keys the hashes, set the same value on every instance sharing a `store`
+  publicKeys?: ReadonlyArray<TrustedPublicKey>; // Defaults to `ZEROAD_NETWORK_TRUSTED_KEYS`
+  onThreshold?: (event: ReplayEvent) => void | Promise<void>; // Called once per token and window by each monitor
+};
+
+export type ReplayMonitor = {
+  observe(
+    headerValue: string | null | undefined,
+    fingerprint: ReplayFingerprint
+  ): Promise<ReplayObservation | undefined>;
+  clear(): Promise<void>;
+};
+
+const HASH_BYTES = 16;
+
+// Tokens remembered as reported per window, the oldest are forgotten first
+const MAX_REPORTED = 10_000;
+
+/**
+ * Opt-in detection of shared tokens: counts the distinct IP and user agent fingerprints presenting
+ * the same token (identified by its nonce) per time window. Only salted hashes are stored or
+ * reported. Tokens that don't verify with `publicKeys` are ignored, their nonce is meaningless.
+ */
+export function createReplayMonitor(options: ReplayMonitorOptions = {}): ReplayMonitor {
+  const threshold = options.threshold ?? 5;
+  const windowSize = options.window ?? 10 * 60 * 1000;
+  const store = options.store ?? createMemoryReplayStore({ maxFingerprints: Math.max(64, threshold + 1) });
+  const salt = options.salt ?? toBase64(getCryptoBackend().nonce(32));
+  const publicKeys = options.publicKeys ?? ZEROAD_NETWORK_TRUSTED_KEYS;
+  const encoder = new TextEncoder();
+
+  // Tokens reported in the current window: concurrent adds to a shared store may skip past `threshold + 1`
+  let reportedWindow = 0;
+  let reported = new Set<string>();
+
+  if (threshold < 1) throw new Error("Replay threshold must be >= 1");
+  if (windowSize < 1) throw new Error("Replay window must be >= 1");
+
+  const hash = async (value: string) =>
+    toBase64((await hmac(encoder.encode(value).buffer as ArrayBuffer, salt)).subarray(0, HASH_BYTES));
+
+  return {
+    async observe(headerValue, fingerprint) {
+      const token = inspectClientHeader(headerValue);
+      if (!token || !(await decodeClientHeader(headerValue, publicKeys))) return undefined;
+
+      const now = Date.now();
+      const windowStart = now - (now % windowSize);
+
+      try {
+        const tokenHash = await hash(`${token.nonce}:${token.expiresAt.getTime()}`);
+        const fingerprintHash = await hash(`${fingerprint.ip ?? ""}\n${fingerprint.userAgent ?? ""}`);
+        const count = await store.add(`${tokenHash}:${windowStart}`, fingerprintHash, windowStart + windowSize - now);
+
+        const event: ReplayEvent = {
+          token: tokenHash,
+          fingerprints: count,
+          threshold,
+          windowStart: new Date(windowStart),
+          expiresAt: token.expiresAt,
+        };
+
+        if (windowStart > reportedWindow) {
+          reportedWindow = windowStart;
+          reported = new Set();
+        }
+
+        if (count > threshold && windowStart === reportedWindow && !reported.has(tokenHash)) {
+          if (reported.size >= MAX_REPORTED) reported.delete(reported.values().next().value!);
+          reported.add(tokenHash);
+          await options.onThreshold?.(event);
+        }
+
+        return { ...event, exceeded: count > threshold };
+      } catch (err) {
+        log("warn", "REPLAY_RECORD_FAILED", { reason: (err as Error)?.message });
+        return undefined;
+      }
+    },
+
+    async clear() {
+      reported.clear();
+      await store.clear();
+    },
+  };
+}
@@ -1,26 +1,122 @@
-import { CacheConfig, configureCaching } from "./headers/client/cache";
-import { ClientHeaderValue, parseClientToken } from "./headers/client";
-import { CLIENT_HEADER, FEATURE, SERVER_HEADER } from "./constants";
+import { CacheConfig, createTokenCache, TokenCacheStore } from "./headers/client/cache";
+import {
+  ClientHeaderValue,
+  ParsedClientToken,
+  parseClientToken,
+  parseClientTokenDetailed,
+  TokenContext,
+} from "./headers/client";
+import { CLIENT_HEADER, FEATURE, PROTOCOL_VERSION, SERVER_HEADER } from "./constants";
 import { encodeServerHeader } from "./headers/server";
+import { TrustedPublicKey } from "./keys";
+import { createMetricsCollector, MetricsRecorder } from "./metrics";
+import { createLogger, LoggerOptions } from "./logger";
+import { compilePathPattern, normalizePath, pathOf, PathPattern } from "./paths";
+
+export type SiteRoute = {
+  path: PathPattern; // String patterns are advertised in the welcome header with `advertiseRoutes`
+  features: FEATURE[]; // Replaces the site `features` on matching paths, at least one is required
+};
 
 export type SiteOptions = {
   clientId: string;
   features: FEATURE[];
-  cacheConfig?: CacheConfig;
+  cacheConfig?: Partial<CacheConfig>; // Fields that are not set follow the global `configureCaching()` config
+  cacheStore?: TokenCacheStore;
+  publicKeys?: ReadonlyArray<TrustedPublicKey>; // Defaults to `ZEROAD_NETWORK_TRUSTED_KEYS`
+  metrics?: MetricsRecorder; // Also receives every event counted by `getStats()`, e.g. `createOpenTelemetryRecorder()`
+  logger?: Omit<LoggerOptions, "scope">; // Records are scoped with the `clientId`
+  // Advertised in the welcome header, e.g. `SUPPORTED_PROTOCOL_VERSIONS`. Like `policyUrl`, opts into the
+  // extended header format older parsers reject (see `encodeServerHeader()`)
+  protocolVersions?: PROTOCOL_VERSION[];
+  policyUrl?: string; // Advertised in the welcome header
+  routes?: SiteRoute[]; // The first route matching the request path wins, see `site.forRequest()`
+  advertiseRoutes?: boolean; // Adds the string `routes` to the welcome header, opts into the extended format too
+  caseSensitivePaths?: boolean; // String `routes` ignore case by default, like Express routes
+};
+
+/**
+ * Token parsing and welcome header for the features offered on a single path.
+ */
+export type SiteRequestScope = {
+  features: FEATURE[];
+  parseClientToken(headerValue: ClientHeaderValue): Promise<TokenContext>;
+  parseClientTokenDetailed(headerValue: ClientHeaderValue): Promise<ParsedClientToken>;
+  SERVER_HEADER_NAME: SERVER_HEADER;
+  SERVER_HEADER_VALUE: string;
 };
 
 export function Site(options: SiteOptions) {
-  const serverHeaderValue = encodeServerHeader(options.clientId, options.features);
+  const collector = createMetricsCollector();
+  const metrics: MetricsRecorder = options.metrics
+    ? (event) => {
+        collector.record(event);
+        options.metrics?.(event);
+      }
+    : collector.record;
+
+  const logger = createLogger({ ...options.logger, scope: { clientId: options.clientId } });
+  const cache = createTokenCache({ config: options.cacheConfig, store: options.cacheStore, metrics, logger });
+  const headerOptions = {
+    versions: options.protocolVersions,
+    policyUrl: options.policyUrl,
+    paths: options.advertiseRoutes
+      ? (options.routes ?? []).flatMap(({ path, features }) =>
+          typeof path === "string" ? [{ pattern: path, features }] : []
+        )
+      : undefined,
+  };
+
+  if (options.routes?.some((route) => !route.features.length)) {
+    throw new Error("Every route needs at least one feature, skip paths without any with the middleware `exclude`");
+  }
 
-  if (options.cacheConfig) {
-    configureCaching(options.cacheConfig);
+  function createScope(features: FEATURE[]): SiteRequestScope {
+    const parseOptions = {
+      clientId: options.clientId,
+      features,
+      cache,
+      metrics,
+      logger,
+      ...(options.publicKeys && { publicKeys: options.publicKeys }),
+    };
+
+    return {
+      features,
+      parseClientToken: (headerValue) => parseClientToken(headerValue, parseOptions),
+      parseClientTokenDetailed: (headerValue) => parseClientTokenDetailed(headerValue, parseOptions),
+      SERVER_HEADER_NAME: SERVER_HEADER.WELCOME,
+      SERVER_HEADER_VALUE: encodeServerHeader(options.clientId, features, headerOptions),
+    };
   }
 
+  const siteScope = createScope(options.features);
+  const routes = (options.routes ?? []).map((route) => ({
+    matches: compilePathPattern(route.path, { caseSensitive: options.caseSensitivePaths }),
+    scope: createScope(route.features),
+  }));
+
   return {
-    parseClientToken: (headerValue: ClientHeaderValue) =>
-      parseClientToken(headerValue, { clientId: options.clientId, features: options.features }),
+    parseClientToken: siteScope.parseClientToken,
+    parseClientTokenDetailed: siteScope.parseClientTokenDetailed,
+    /**
+     * Scope of the first route matching the normalized path of `url` (an absolute URL or a path,
+     * relative ones resolve from `/`), the site features when none does. Tokens are cached once
+     * for all routes.
+     */
+    forRequest(url: string | URL): SiteRequestScope {
+      const path = normalizePath(
+        typeof url === "string" && url.startsWith("/") ? pathOf(url) : new URL(url, "http://localhost").pathname
+      );
+      return routes.find((route) => route.matches(path))?.scope ?? siteScope;
+    },
+    cache,
+    getStats: () => collector.snapshot(),
+    clientId: options.clientId,
     CLIENT_HEADER_NAME: CLIENT_HEADER.HELLO.toLowerCase(),
     SERVER_HEADER_NAME: SERVER_HEADER.WELCOME,
-    SERVER_HEADER_VALUE: serverHeaderValue,
+    SERVER_HEADER_VALUE: siteScope.SERVER_HEADER_VALUE,
   };
 }
+
+export type SiteInstance = ReturnType<typeof Site>;
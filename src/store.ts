@@ -0,0 +1,37 @@
+import { createEmptyContext, TokenContext } from "./context";
+
+export type TokenContextListener = (tokenContext: TokenContext) => void;
+
+export type TokenContextStore = {
+  get(): TokenContext;
+  set(tokenContext: TokenContext): void;
+  subscribe(listener: TokenContextListener): () => void; // Returns the unsubscribe function
+};
+
+const isSameContext = (a: TokenContext, b: TokenContext) =>
+  (Object.keys(a) as (keyof TokenContext)[]).every((action) => a[action] === b[action]);
+
+/**
+ * Minimal observable holder for the resolved `TokenContext`. Listeners are only notified
+ * when an action actually changes.
+ */
+export function createTokenContextStore(initial: TokenContext = createEmptyContext()): TokenContextStore {
+  let current = initial;
+  const listeners = new Set<TokenContextListener>();
+
+  return {
+    get: () => current,
+
+    set(tokenContext) {
+      if (isSameContext(current, tokenContext)) return;
+
+      current = tokenContext;
+      for (const listener of [...listeners]) listener(current);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+  };
+}
@@ -1,7 +1,10 @@
-import { generateKeys } from "../crypto";
-import { log } from "../logger";
+#!/usr/bin/env node
+/* eslint-disable no-console */
+import { runCli } from "./commands";
 
-const { privateKey, publicKey } = generateKeys();
-
-log("info", "Public Key:", publicKey);
-log("info", "Private Key:", privateKey);
+runCli(process.argv.slice(2), {
+  stdout: (text) => console.log(text),
+  stderr: (text) => console.error(text),
+}).then((exitCode) => {
+  process.exitCode = exitCode;
+});
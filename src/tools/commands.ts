@@ -0,0 +1,288 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  CURRENT_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  FEATURE,
+  encodeClientHeader,
+  inspectClientHeader,
+  parseClientTokenDetailed,
+  TrustedPublicKey,
+  auditHtml,
+  createFeatureContext,
+} from "../index";
+import { generateKeys } from "../crypto";
+import { FEATURE_MAP, hasFlag } from "../helpers";
+
+export type CliOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+type Command = {
+  usage: string;
+  options: NonNullable<Parameters<typeof parseArgs>[0]>["options"];
+  run: (values: Record<string, string | boolean | undefined>, positionals: string[], output: Output) => Promise<number>;
+};
+
+type Output = CliOutput & {
+  print: (data: Record<string, unknown>, lines: [string, unknown][]) => void;
+};
+
+const HELP_COMMANDS = ["help", "--help", "-h"];
+
+const JSON_OPTION = { json: { type: "boolean", default: false } } as const;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+export function parseDuration(value: string): number {
+  const match = /^(\d+)([smhd]?)$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid duration "${value}", expected e.g. 90s, 15m, 12h or 7d`);
+
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"] * 1000;
+}
+
+export function parseFeatures(value: string): FEATURE[] {
+  return value
+    .split(",")
+    .map((name) => name.trim().toUpperCase())
+    .filter(Boolean)
+    .map((name) => {
+      const feature = FEATURE_MAP.get(name as keyof typeof FEATURE);
+      if (feature === undefined) {
+        throw new Error(`Unknown feature "${name}", expected one of: ${[...FEATURE_MAP.keys()].join(", ")}`);
+      }
+
+      return feature;
+    });
+}
+
+const featureNames = (flags: number) => [...FEATURE_MAP].filter(([, bit]) => hasFlag(bit, flags)).map(([name]) => name);
+
+const readKeyFile = (path: string) => readFileSync(path, "utf8").trim();
+
+const COMMANDS: Record<string, Command> = {
+  keys: {
+    usage: "keys [--json]",
+    options: JSON_OPTION,
+    async run(_values, _positionals, output) {
+      const { publicKey, privateKey } = generateKeys();
+
+      output.print({ publicKey, privateKey }, [
+        ["Public Key", publicKey],
+        ["Private Key", privateKey],
+      ]);
+
+      return 0;
+    },
+  },
+
+  mint: {
+    usage:
+      "mint --private-key-file <path> [--features CLEAN_WEB,ONE_PASS] [--expires-in 1h] [--client-id <id>] [--key-id <id>] [--json]",
+    options: {
+      ...JSON_OPTION,
+      "private-key-file": { type: "string" },
+      features: { type: "string", default: "CLEAN_WEB,ONE_PASS" },
+      "expires-in": { type: "string", default: "1h" },
+      "client-id": { type: "string" },
+      "key-id": { type: "string" }, // Mints a V2 token
+    },
+    async run(values, _positionals, output) {
+      if (!values["private-key-file"]) throw new Error("--private-key-file is required");
+
+      const features = parseFeatures(values.features as string);
+      const expiresAt = new Date(Date.now() + parseDuration(values["expires-in"] as string));
+      const clientId = values["client-id"] as string | undefined;
+      const keyId = values["key-id"] as string | undefined;
+      const version = keyId ? PROTOCOL_VERSION.V_2 : CURRENT_PROTOCOL_VERSION;
+
+      const token = await encodeClientHeader(
+        { version, expiresAt, features, clientId, keyId },
+        readKeyFile(values["private-key-file"] as string)
+      );
+
+      const decoded = inspectClientHeader(token);
+      output.print(
+        { token, expiresAt: decoded?.expiresAt.toISOString(), features: featureNames(decoded?.flags ?? 0), clientId },
+        [
+          ["Token", token],
+          ["Expires at", decoded?.expiresAt.toISOString()],
+          ["Features", featureNames(decoded?.flags ?? 0).join(", ")],
+          ["Client ID", clientId],
+        ]
+      );
+
+      return 0;
+    },
+  },
+
+  inspect: {
+    usage: "inspect <token> [--json]",
+    options: JSON_OPTION,
+    async run(_values, [token], output) {
+      const decoded = inspectClientHeader(token);
+      if (!decoded) throw new Error("Could not decode the token");
+
+      const expired = decoded.expiresAt.getTime() < Date.now();
+      const features = featureNames(decoded.flags);
+
+      output.print(
+        {
+          version: decoded.version,
+          nonce: decoded.nonce,
+          keyId: decoded.keyId,
+          issuedAt: decoded.issuedAt?.toISOString(),
+          expiresAt: decoded.expiresAt.toISOString(),
+          expired,
+          flags: decoded.flags,
+          features,
+          clientId: decoded.clientId,
+        },
+        [
+          ["Version", decoded.version],
+          ["Nonce", decoded.nonce],
+          ["Key ID", decoded.keyId],
+          ["Issued at", decoded.issuedAt?.toISOString()],
+          ["Expires at", `${decoded.expiresAt.toISOString()}${expired ? " (expired)" : ""}`],
+          ["Features", features.join(", ") || "none"],
+          ["Client ID", decoded.clientId],
+          ["Signature", "not verified, use the `verify` command"],
+        ]
+      );
+
+      return 0;
+    },
+  },
+
+  verify: {
+    usage: "verify <token> [--public-key <base64> | --public-key-file <path>] [--client-id <id>] [--json]",
+    options: {
+      ...JSON_OPTION,
+      "public-key": { type: "string" },
+      "public-key-file": { type: "string" },
+      "client-id": { type: "string", default: "" },
+    },
+    async run(values, [token], output) {
+      const publicKey =
+        (values["public-key"] as string | undefined) ??
+        (values["public-key-file"] ? readKeyFile(values["public-key-file"] as string) : undefined);
+
+      const publicKeys: TrustedPublicKey[] | undefined = publicKey ? [{ publicKey }] : undefined;
+      const {
+        status,
+        token: decoded,
+        verifiedKey,
+      } = await parseClientTokenDetailed(token, {
+        clientId: values["client-id"] as string,
+        features: [...FEATURE_MAP.values()],
+        bypassCache: true,
+        ...(publicKeys && { publicKeys }),
+      });
+
+      output.print(
+        {
+          status,
+          expiresAt: decoded?.expiresAt.toISOString(),
+          features: decoded && featureNames(decoded.flags),
+          clientId: decoded?.clientId,
+          publicKey: verifiedKey?.publicKey,
+        },
+        [
+          ["Status", status],
+          ["Expires at", decoded?.expiresAt.toISOString()],
+          ["Features", decoded && featureNames(decoded.flags).join(", ")],
+          ["Client ID", decoded?.clientId],
+        ]
+      );
+
+      return status === "valid" ? 0 : 1;
+    },
+  },
+
+  audit: {
+    usage: "audit <file...> [--features CLEAN_WEB,ONE_PASS] [--json]",
+    options: {
+      ...JSON_OPTION,
+      features: { type: "string", default: "CLEAN_WEB,ONE_PASS" },
+    },
+    async run(values, files, output) {
+      const tokenContext = createFeatureContext(parseFeatures(values.features as string));
+      const reports = files.map((file) => ({ file, findings: auditHtml(readFileSync(file, "utf8"), tokenContext) }));
+      const count = reports.reduce((total, { findings }) => total + findings.length, 0);
+
+      const lines = reports.flatMap(({ file, findings }) =>
+        findings.map(({ rule, action, match, tag }): [string, unknown] => [
+          file,
+          `${rule} (${action}): ${match} ${tag}`,
+        ])
+      );
+
+      output.print(
+        { findings: count, files: reports },
+        lines.length ? lines : [["Result", `No findings in ${files.length} file(s)`]]
+      );
+
+      return count ? 1 : 0;
+    },
+  },
+};
+
+function usage() {
+  return [
+    "Usage: zeroad-token <command> [options]",
+    "",
+    "Commands:",
+    ...Object.values(COMMANDS).map((command) => `  ${command.usage}`),
+  ].join("\n");
+}
+
+function createOutput(io: CliOutput, json: boolean): Output {
+  return {
+    ...io,
+    print(data, lines) {
+      if (json) {
+        io.stdout(JSON.stringify(data, null, 2));
+        return;
+      }
+
+      const width = Math.max(...lines.map(([label]) => label.length)) + 1;
+      for (const [label, value] of lines) {
+        if (value !== undefined && value !== "") io.stdout(`${`${label}:`.padEnd(width)} ${value}`);
+      }
+    },
+  };
+}
+
+/**
+ * Runs a CLI command and resolves with its exit code.
+ */
+export async function runCli(argv: string[], io: CliOutput): Promise<number> {
+  const [name, ...args] = argv;
+  const command = name ? COMMANDS[name] : undefined;
+
+  if (!command) {
+    const isHelp = !name || HELP_COMMANDS.includes(name);
+    (isHelp ? io.stdout : io.stderr)(usage());
+
+    return isHelp ? 0 : 2;
+  }
+
+  const json = args.includes("--json");
+
+  try {
+    const { values, positionals } = parseArgs({ args, options: command.options, allowPositionals: true });
+
+    const required = /<(token|file)/.exec(command.usage)?.[1];
+    if (required && !positionals[0]) {
+      throw new Error(`Missing <${required}> argument, usage: ${command.usage}`);
+    }
+
+    return await command.run(values, positionals, createOutput(io, json));
+  } catch (err) {
+    const message = (err as Error)?.message;
+    io.stderr(json ? JSON.stringify({ error: message }) : `Error: ${message}`);
+
+    return 2;
+  }
+}
@@ -0,0 +1,80 @@
+import type { CryptoBackend, KeyPair } from "./backend";
+import { fromBase64, toBase64 } from "./helpers";
+
+const ALGORITHM = { name: "Ed25519" } as const;
+
+const keyCache = new Map<string, CryptoKey>();
+const hmacKeyCache = new Map<string, CryptoKey>();
+
+function subtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("WebCrypto `crypto.subtle` is not available in this environment");
+  }
+
+  return globalThis.crypto.subtle;
+}
+
+export async function generateKeys(): Promise<KeyPair> {
+  const { publicKey, privateKey } = (await subtle().generateKey(ALGORITHM, true, ["sign", "verify"])) as CryptoKeyPair;
+
+  const privateBase64 = toBase64(new Uint8Array(await subtle().exportKey("pkcs8", privateKey)));
+  const publicBase64 = toBase64(new Uint8Array(await subtle().exportKey("spki", publicKey)));
+
+  return {
+    privateKey: privateBase64,
+    publicKey: publicBase64,
+  };
+}
+
+export async function sign(data: ArrayBuffer, privateKey: string): Promise<Uint8Array> {
+  const key = await importPrivateKey(privateKey);
+  return new Uint8Array(await subtle().sign(ALGORITHM, key, data));
+}
+
+export async function verify(data: ArrayBuffer, signature: ArrayBuffer, publicKey: string): Promise<boolean> {
+  const key = await importPublicKey(publicKey);
+  return subtle().verify(ALGORITHM, key, signature, data);
+}
+
+export async function hmac(data: ArrayBuffer, secret: string): Promise<Uint8Array> {
+  let key = hmacKeyCache.get(secret);
+
+  if (!key) {
+    const keyData = new TextEncoder().encode(secret);
+    key = await subtle().importKey("raw", keyData, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    hmacKeyCache.set(secret, key);
+  }
+
+  return new Uint8Array(await subtle().sign("HMAC", key, data));
+}
+
+export const nonce = (size: number) => globalThis.crypto.getRandomValues(new Uint8Array(size));
+
+async function importPrivateKey(privateKeyBase64: string) {
+  if (keyCache.has(privateKeyBase64)) return keyCache.get(privateKeyBase64) as CryptoKey;
+
+  const keyData = fromBase64(privateKeyBase64) as BufferSource;
+  const key = await subtle().importKey("pkcs8", keyData, ALGORITHM, false, ["sign"]);
+
+  keyCache.set(privateKeyBase64, key);
+  return key;
+}
+
+async function importPublicKey(publicKeyBase64: string) {
+  if (keyCache.has(publicKeyBase64)) return keyCache.get(publicKeyBase64) as CryptoKey;
+
+  const keyData = fromBase64(publicKeyBase64) as BufferSource;
+  const key = await subtle().importKey("spki", keyData, ALGORITHM, false, ["verify"]);
+
+  keyCache.set(publicKeyBase64, key);
+  return key;
+}
+
+export const webCryptoBackend: CryptoBackend = {
+  name: "webcrypto",
+  generateKeys,
+  sign,
+  verify,
+  nonce,
+  hmac,
+};